@@ -1,55 +1,188 @@
+// How next() and use() get the tool and payload of an action: the JSON prompts of the agent pipeline,
+// or a single call where every registered tool is offered to the model as a function
+export type ToolMode = 'prompt' | 'function_calling';
+
 interface ModelSpecs {
   id: string;
   contextWindow: number;
   maxOutput: number;
   knowledgeCutoff: string;
+  pricing: {
+    input: number; // USD per 1M prompt tokens
+    output: number; // USD per 1M completion tokens
+    cache_write?: number; // USD per 1M prompt tokens written to the prompt cache, the input price when omitted
+    cache_read?: number; // USD per 1M prompt tokens read from the prompt cache, the input price when omitted
+  };
+  tool_mode?: ToolMode; // 'prompt' when omitted; a request can still override it
+}
+
+// Any server that speaks the OpenAI API (Ollama, vLLM, llama.cpp's server); its models are listed under `local` below.
+// Without `stream_usage` the server isn't asked for usage at the end of a stream, which some servers reject
+export const local_provider = {
+  base_url: process.env.LOCAL_LLM_BASE_URL ?? 'http://localhost:11434/v1',
+  api_key: process.env.LOCAL_LLM_API_KEY ?? 'local',
+  stream_usage: process.env.LOCAL_LLM_STREAM_USAGE === 'true'
+};
+
+interface EmbeddingModelSpecs {
+  provider: 'openai' | 'local';
+  dimensions: number; // size of the Qdrant collection its vectors go to
 }
 
+export const embedding_models: Record<string, EmbeddingModelSpecs> = {
+  'text-embedding-3-large': {provider: 'openai', dimensions: 3072},
+  'text-embedding-3-small': {provider: 'openai', dimensions: 1536},
+  'nomic-embed-text': {provider: 'local', dimensions: 768},
+  'mxbai-embed-large': {provider: 'local', dimensions: 1024}
+};
+
+// Only decides the model of the first index; after that documents are embedded with the model of the active index,
+// which changes through a re-embedding (POST /api/admin/embeddings/reembed)
+export const default_embedding_model = process.env.EMBEDDING_MODEL ?? 'text-embedding-3-large';
+
+// Used when neither the request nor the user's persona picks a model
+export const default_model = 'gpt-4.1';
+
+// Name of the agent in /v1/models; every other model listed there is called directly, without the agent
+export const agent_model = 'alice-agent';
+
 export const providers: Record<string, Record<string, ModelSpecs>> = {
   openai: {
     'gpt-4o': {
       id: 'gpt-4o',
       contextWindow: 128_000,
       maxOutput: 16_384,
-      knowledgeCutoff: '2023-10'
+      knowledgeCutoff: '2023-10',
+      pricing: {input: 2.5, output: 10}
     },
     'gpt-4o-mini': {
       id: 'gpt-4o-mini',
       contextWindow: 128_000,
       maxOutput: 16_384,
-      knowledgeCutoff: '2023-10'
+      knowledgeCutoff: '2023-10',
+      pricing: {input: 0.15, output: 0.6}
     },
     'gpt-4.1': {
       id: 'gpt-4.1',
       contextWindow: 1047576,
       maxOutput: 32768,
-      knowledgeCutoff: '2024-04'
+      knowledgeCutoff: '2024-04',
+      pricing: {input: 2, output: 8}
     },
     'gpt-4.1-mini': {
       id: 'gpt-4.1-mini',
       contextWindow: 1047576,
       maxOutput: 32768,
-      knowledgeCutoff: '2024-04'
+      knowledgeCutoff: '2024-04',
+      pricing: {input: 0.4, output: 1.6}
     },
     'o1-preview': {
       id: 'o1-preview',
       contextWindow: 128_000,
       maxOutput: 32_768,
-      knowledgeCutoff: '2023-10'
+      knowledgeCutoff: '2023-10',
+      pricing: {input: 15, output: 60}
     },
     'o1-mini': {
       id: 'o1-mini',
       contextWindow: 128_000,
       maxOutput: 65_536,
-      knowledgeCutoff: '2023-10'
+      knowledgeCutoff: '2023-10',
+      pricing: {input: 3, output: 12}
     }
   },
   anthropic: {
+    'claude-3-5-haiku-latest': {
+      id: 'claude-3-5-haiku-latest',
+      contextWindow: 200_000,
+      maxOutput: 8_192,
+      knowledgeCutoff: '2024-07',
+      pricing: {input: 0.8, output: 4, cache_write: 1, cache_read: 0.08}
+    },
     'claude-3-5-sonnet-latest': {
       id: 'claude-3-5-sonnet-latest',
       contextWindow: 200_000,
       maxOutput: 8_192,
-      knowledgeCutoff: '2024-04'
+      knowledgeCutoff: '2024-04',
+      pricing: {input: 3, output: 15, cache_write: 3.75, cache_read: 0.3}
+    },
+    'claude-3-7-sonnet-latest': {
+      id: 'claude-3-7-sonnet-latest',
+      contextWindow: 200_000,
+      maxOutput: 64_000,
+      knowledgeCutoff: '2024-10',
+      pricing: {input: 3, output: 15, cache_write: 3.75, cache_read: 0.3}
+    },
+    'claude-sonnet-4-0': {
+      id: 'claude-sonnet-4-0',
+      contextWindow: 200_000,
+      maxOutput: 64_000,
+      knowledgeCutoff: '2025-03',
+      pricing: {input: 3, output: 15, cache_write: 3.75, cache_read: 0.3}
+    },
+    'claude-opus-4-0': {
+      id: 'claude-opus-4-0',
+      contextWindow: 200_000,
+      maxOutput: 32_000,
+      knowledgeCutoff: '2025-03',
+      pricing: {input: 15, output: 75, cache_write: 18.75, cache_read: 1.5}
+    }
+  },
+  // Ids as the local server names them; context windows are what the server is configured with, not the model's maximum
+  local: {
+    'llama3.1:8b': {
+      id: 'llama3.1:8b',
+      contextWindow: 32_768,
+      maxOutput: 4_096,
+      knowledgeCutoff: '2023-12',
+      pricing: {input: 0, output: 0}
+    },
+    'qwen2.5:14b': {
+      id: 'qwen2.5:14b',
+      contextWindow: 32_768,
+      maxOutput: 8_192,
+      knowledgeCutoff: '2024-09',
+      pricing: {input: 0, output: 0}
     }
   }
 };
+
+// Models tried in order after the requested one when its provider keeps failing (rate limits, overloads, server
+// errors, timeouts) or is skipped by its circuit breaker; models without a chain fail on their own
+export const fallback_chains: Record<string, string[]> = {
+  'gpt-4.1': ['gpt-4o', 'claude-sonnet-4-0'],
+  'gpt-4.1-mini': ['gpt-4o-mini', 'claude-3-5-haiku-latest'],
+  'gpt-4o': ['gpt-4.1', 'claude-sonnet-4-0'],
+  'gpt-4o-mini': ['gpt-4.1-mini', 'claude-3-5-haiku-latest'],
+  'claude-sonnet-4-0': ['claude-3-7-sonnet-latest', 'gpt-4.1'],
+  'claude-3-5-haiku-latest': ['gpt-4.1-mini']
+};
+
+// Attempts per model before falling back; the delay doubles after every attempt and is jittered by up to half of it
+export const retry_policy = {
+  max_attempts: 3,
+  base_delay_ms: 500,
+  max_delay_ms: 8_000
+};
+
+// After this many failures in a row a provider is skipped for the cool-down; the first call after it tries again
+export const circuit_breaker = {
+  failure_threshold: 5,
+  cooldown_ms: 60_000
+};
+
+// Opt-in reuse of completions for identical deterministic calls (temperature 0). Entries expire after ttl_ms, and the
+// least recently used are evicted once the cache holds more than max_entries or max_bytes of output
+export const completion_cache = {
+  enabled: process.env.COMPLETION_CACHE === 'true',
+  ttl_ms: Number(process.env.COMPLETION_CACHE_TTL_MS) || 24 * 60 * 60 * 1000,
+  max_entries: Number(process.env.COMPLETION_CACHE_MAX_ENTRIES) || 10_000,
+  max_bytes: Number(process.env.COMPLETION_CACHE_MAX_BYTES) || 50 * 1024 * 1024
+};
+
+// Conversation history may take this share of the model's context window (after its output) before older turns
+// are compacted into a summary; the last keep_turns turns (a user message and the replies to it) always stay verbatim
+export const history_budget = {
+  context_share: 0.5,
+  keep_turns: 4
+};
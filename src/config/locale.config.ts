@@ -0,0 +1,3 @@
+// Used when neither the user's `environment` nor their profile sets a timezone (IANA name) or locale (BCP 47 tag)
+export const default_timezone = 'Europe/Warsaw';
+export const default_locale = 'en-GB';
@@ -0,0 +1,14 @@
+// What the reasoning loop does once it notices it's going in circles:
+// - correct: tell the planner what went wrong in its next plan() and keep going
+// - final_answer: stop and answer with whatever was done so far
+// - escalate: stop and ask the user how to proceed
+export type LoopResponse = 'correct' | 'final_answer' | 'escalate';
+
+export const loop_detection = {
+  // the same tool, action and payload in this many consecutive steps
+  repeat: {steps: 2, response: 'correct' as LoopResponse},
+  // this many consecutive steps without any task changing its status
+  stall: {steps: 3, response: 'correct' as LoopResponse},
+  // this many A -> B rounds in a row, e.g. search -> load -> search -> load
+  oscillation: {cycles: 2, response: 'final_answer' as LoopResponse}
+};
@@ -1,3 +1,11 @@
+// A server resource read into the context of the server's tools before their payload is generated
+export interface McpContextResource {
+  uri: string; // e.g., "todoist://projects"
+  name: string; // Unique per server, used to cache the resource
+  ttl_ms?: number; // Optional: how long the resource is reused before it's read again
+  max_tokens?: number; // Optional: longer contents are truncated
+}
+
 export interface McpServerConfig {
   id: string; // Unique identifier for this server config, e.g., "CalculatorService"
   name: string; // User-friendly name, e.g., "Online Calculator MCP"
@@ -8,6 +16,7 @@ export interface McpServerConfig {
   env?: Record<string, string>; // Optional environment variables for stdio transport
   enabled: boolean; // Optional: to easily toggle servers
   description?: string; // Optional: A brief description of the server
+  context_resources?: McpContextResource[]; // Optional: resources added as context for every tool of this server
 }
 
 // Define your MCP servers here
@@ -8,9 +8,21 @@ import { mapService } from '../services/tools/map.service';
 import { cryptoService } from '../services/tools/crypto.service';
 import { webService } from '../services/tools/web.service';
 import { calendarService } from '../services/agent/calendar.service';
+import { delegateService } from '../services/agent/delegate.service';
+import type { StateManager } from '../services/agent/state.service';
+import type { DocumentType } from '../services/agent/document.service';
+import type { LangfuseSpanClient } from 'langfuse';
 
 export interface ToolService {
-  execute: (action: string, payload: Record<string, any>, span?: any) => Promise<any>;
+  execute: (action: string, payload: Record<string, any>, span: any, stateManager: StateManager) => Promise<any>;
+}
+
+// Adds a document to the tool's context before its payload is generated (e.g. recent tasks before creating one)
+export interface ToolContextProvider {
+  name: string;
+  ttl_ms?: number; // how long the document is reused for the same user; not cached when omitted
+  max_tokens?: number; // longer documents are truncated to this many tokens
+  getContext: (stateManager: StateManager, span?: LangfuseSpanClient) => Promise<DocumentType | null>;
 }
 
 const finalAnswerService: ToolService = {
@@ -33,7 +45,14 @@ export const toolsMap: Record<string, ToolService> = {
   crypto: cryptoService,
   google: webService,
   calendar: calendarService,
+  delegate: delegateService,
   final_answer: finalAnswerService
 } as const;
 
+export const toolContextProviders: Record<string, ToolContextProvider[]> = {
+  linear: [{ name: 'recent_tasks', ttl_ms: 60_000, max_tokens: 4000, getContext: linearService.getRecentTasksContext }],
+  calendar: [{ name: 'recent_events', ttl_ms: 60_000, max_tokens: 4000, getContext: calendarService.getRecentEventsContext }],
+  memory: [{ name: 'recent_memories', max_tokens: 2000, getContext: (stateManager, span) => memoryService.getRecentMemoriesContext(stateManager, span) }]
+};
+
 export type ToolName = keyof typeof toolsMap; 
\ No newline at end of file
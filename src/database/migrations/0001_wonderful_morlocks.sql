@@ -0,0 +1,2 @@
+ALTER TABLE `tools` ADD `approval_actions` text;--> statement-breakpoint
+ALTER TABLE `actions` ADD `tool_action` text;
\ No newline at end of file
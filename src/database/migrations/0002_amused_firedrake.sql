@@ -0,0 +1,2 @@
+ALTER TABLE `tools` ADD `max_attempts` integer DEFAULT 1;--> statement-breakpoint
+ALTER TABLE `tools` ADD `retry_backoff_ms` integer DEFAULT 1000;
\ No newline at end of file
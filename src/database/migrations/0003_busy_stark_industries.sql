@@ -0,0 +1,22 @@
+CREATE TABLE `usage` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`uuid` text NOT NULL,
+	`user_uuid` text NOT NULL,
+	`conversation_uuid` text,
+	`message_uuid` text,
+	`phase` text NOT NULL,
+	`model` text NOT NULL,
+	`prompt_tokens` integer DEFAULT 0 NOT NULL,
+	`completion_tokens` integer DEFAULT 0 NOT NULL,
+	`total_tokens` integer DEFAULT 0 NOT NULL,
+	`cost` real DEFAULT 0 NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`user_uuid`) REFERENCES `users`(`uuid`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`conversation_uuid`) REFERENCES `conversations`(`uuid`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`message_uuid`) REFERENCES `messages`(`uuid`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `usage_uuid_unique` ON `usage` (`uuid`);--> statement-breakpoint
+CREATE INDEX `usage_user_created_idx` ON `usage` (`user_uuid`,`created_at`);--> statement-breakpoint
+CREATE INDEX `usage_conversation_idx` ON `usage` (`conversation_uuid`);--> statement-breakpoint
+ALTER TABLE `users` ADD `monthly_budget` real;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `tasks` ADD `depends_on` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `conversations` ADD `parent_uuid` text REFERENCES conversations(uuid);
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `personas` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`uuid` text(36) NOT NULL,
+	`user_uuid` text NOT NULL,
+	`name` text NOT NULL,
+	`instructions` text,
+	`tools` text,
+	`model` text,
+	`alt_model` text,
+	`memory_categories` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`user_uuid`) REFERENCES `users`(`uuid`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `personas_uuid_unique` ON `personas` (`uuid`);--> statement-breakpoint
+ALTER TABLE `users` ADD `default_persona_uuid` text;
\ No newline at end of file
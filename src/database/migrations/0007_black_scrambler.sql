@@ -0,0 +1,3 @@
+ALTER TABLE `users` ADD `timezone` text;--> statement-breakpoint
+ALTER TABLE `users` ADD `locale` text;--> statement-breakpoint
+ALTER TABLE `jobs` ADD `timezone` text DEFAULT 'Europe/Warsaw' NOT NULL;
\ No newline at end of file
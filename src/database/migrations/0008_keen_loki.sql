@@ -0,0 +1,17 @@
+CREATE TABLE `prompt_versions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`uuid` text(36) NOT NULL,
+	`name` text NOT NULL,
+	`version` integer NOT NULL,
+	`template` text NOT NULL,
+	`description` text,
+	`traffic` integer DEFAULT 0 NOT NULL,
+	`activated_at` text,
+	`created_by` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `prompt_versions_uuid_unique` ON `prompt_versions` (`uuid`);--> statement-breakpoint
+CREATE UNIQUE INDEX `prompt_versions_name_version_idx` ON `prompt_versions` (`name`,`version`);--> statement-breakpoint
+ALTER TABLE `users` ADD `admin` integer DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `completion_cache` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`key` text NOT NULL,
+	`kind` text NOT NULL,
+	`model` text NOT NULL,
+	`phase` text,
+	`output` text NOT NULL,
+	`size` integer NOT NULL,
+	`hits` integer DEFAULT 0 NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	`last_used_at` text NOT NULL,
+	`expires_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `completion_cache_key_unique` ON `completion_cache` (`key`);--> statement-breakpoint
+CREATE INDEX `completion_cache_expires_idx` ON `completion_cache` (`expires_at`);--> statement-breakpoint
+CREATE INDEX `completion_cache_last_used_idx` ON `completion_cache` (`last_used_at`);
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `embedding_indexes` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`uuid` text(36) NOT NULL,
+	`model` text NOT NULL,
+	`dimensions` integer NOT NULL,
+	`collection` text NOT NULL,
+	`status` text DEFAULT 'building' NOT NULL,
+	`total` integer DEFAULT 0 NOT NULL,
+	`embedded` integer DEFAULT 0 NOT NULL,
+	`error` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	`finished_at` text,
+	`activated_at` text
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `embedding_indexes_uuid_unique` ON `embedding_indexes` (`uuid`);
\ No newline at end of file
@@ -80,7 +80,8 @@ Important: To share a file you've created, always use the UPLOAD action with the
     uuid: '9df7bfcf-d6a3-4477-a384-f69aa891d625',
     name: 'google',
     description: 'Use this to search the web',
-    instruction: 'To search the web write { "action": "search", "payload": { "query": "<search query>" } }'
+    instruction: 'To search the web write { "action": "search", "payload": { "query": "<search query>" } }',
+    max_attempts: 3
   },
   {
     uuid: 'bac7897e-b6a2-411a-836f-77e2ff2baa0d',
@@ -117,7 +118,8 @@ Available projects:
 - Alice: "873cbb34-5c12-48d4-ab6d-c8fc6b4f8379" — Alice is a desktop app that allows interacting with the Large Language Models and the user is a creator & developer of this app
 - eduweb: "4ce13c4d-cf86-4812-b1bc-f2374c71774d" — eduweb is an educational platform, so all tasks related to creating online courses and workshops should be in this project
 
-When specifying projectId or stateId, use the corresponding UUID from the available options.`
+When specifying projectId or stateId, use the corresponding UUID from the available options.`,
+    approval_actions: ['update_tasks']
   },
   {
     uuid: '5ccbd518-fa47-469b-85bb-994acbeda89d',
@@ -171,12 +173,13 @@ When specifying projectId or stateId, use the corresponding UUID from the availa
 
 Notes:
 - All dates must be in ISO 8601 format
-- Default timezone is Europe/Warsaw
+- Dates without an offset are in the user's timezone
 - For recurring events, use RRULE in the event description
 - Attendees are optional
 - Search supports partial matching of event titles and descriptions
 - TimeMin/TimeMax are optional for search but help narrow results
-- Authentication is handled automatically`
+- Authentication is handled automatically`,
+    approval_actions: ['create_event']
   },
   {
     uuid: '907278d1-a972-4c89-b7e5-51c99dd73f94',
@@ -221,7 +224,8 @@ Notes:
 - STRICTLY FORBIDDEN: Use of words like 'fascinating', 'impactful', 'exhaustive', 'impressive', 'groundbreaking', 'shocking', 'delve in', 'diving in' or similar descriptive adjectives unless explicitly requested by the user
 - Maintain a measured, factual tone throughout, focusing on objective information rather than subjective impressions
 - Use understatement rather than overstatement to convey importance
-- ALWAYS fulfill user requests precisely, completely, and to the letter`
+- ALWAYS fulfill user requests precisely, completely, and to the letter`,
+    approval_actions: ['send_email']
   },
   {
     uuid: '945b84e9-05e7-48d8-b9ba-104785a7eed4',
@@ -332,6 +336,29 @@ Notes:
     description: 'Use this to answer the user',
     instruction: 'To answer the user write { "answer": "<answer>" }'
   },
+  {
+    uuid: '6b1f0c52-8e3d-4a47-9c1e-2d7a5f9e4b83',
+    name: 'delegate',
+    description: `Use this tool to hand off a self-contained subtask (e.g. researching a topic on the web, reading and comparing several files, collecting everything known about a person) to a separate run that works with its own tasks and returns only a summary of what it found.
+Useful when the subtask would take many intermediate actions whose details aren't needed for the rest of the work.`,
+    instruction: `Use the following format:
+
+{
+  "action": "delegate",
+  "payload": {
+    "goal": "<complete description of the subtask and of what the summary must contain>",
+    "tools": ["<tool name>", "..."],
+    "max_steps": <optional number of steps, 1-10, defaults to 5>
+  }
+}
+
+Notes:
+- The delegated run doesn't see this conversation, so the goal must include every detail it needs (names, dates, URLs, document UUIDs)
+- List only the tools the subtask needs, e.g. ["google", "files", "memory"]; it can't delegate again
+- Actions that need the user's approval are not performed by the delegated run; the summary says which ones have to be done here
+- The result is a single document with the summary`,
+    max_attempts: 1
+  },
   {
     uuid: '0de46d88-86dd-4051-9274-cece3e8382c0',
     name: 'maps',
@@ -375,7 +402,8 @@ So if you need to get detailed information about a place, you first need to sear
 Notes:
 - For locations, use specific addresses or well-known place names
 - Use search_place to find place IDs, then use place_details for more information
-- Directions include distance, duration, and step-by-step instructions`
+- Directions include distance, duration, and step-by-step instructions`,
+    max_attempts: 3
   },
   {
     uuid: 'c4a9ec40-5432-494f-9714-55543b8058e8',
@@ -405,7 +433,8 @@ Notes:
 - Symbols should be space-separated (e.g., "BTC ETH DOGE")
 - Amount is optional and defaults to 1
 - All prices are returned in USD
-- Supports both cryptocurrencies and some fiat currencies`
+- Supports both cryptocurrencies and some fiat currencies`,
+    max_attempts: 3
   }
 ];
 
@@ -418,8 +447,11 @@ const users = [
     email: 'adam@overment.com',
     token: process.env.API_KEY, // random token for auth
     active: true,
+    admin: true,
     phone: '+1234567890', // placeholder phone
     context: 'developer from Krakow',
+    timezone: 'Europe/Warsaw',
+    locale: 'pl-PL',
     environment: JSON.stringify({
       location: 'Krakow, at home.',
       time: '2024-11-16T16:28:00.000Z',
@@ -11,20 +11,29 @@ const BaseMessageContent = z.union([
       image_url: z.object({url: z.string()}).optional(),
       image: z.string().optional(),
       source: z
-        .object({
-          type: z.literal('base64'),
-          media_type: z.string(),
-          data: z.string()
-        })
-        .optional()
+        .discriminatedUnion('type', [
+          z.object({type: z.literal('base64'), media_type: z.string(), data: z.string()}),
+          z.object({type: z.literal('url'), url: z.string()})
+        ])
+        .optional() // Anthropic's image parts
     })
   )
 ]);
 
+// Per-request spending limits on top of the user's monthly budget
+const RequestBudget = z
+  .object({
+    tokens: z.number().positive().optional(),
+    cost: z.number().positive().optional() // USD
+  })
+  .optional();
+
+const ToolMode = z.enum(['prompt', 'function_calling']).optional(); // overrides the model's tool_mode from llm.config
+
 // External DTO for raw input
 export const ExternalChatRequestDto = z.object({
   conversation_id: z.string().optional(),
-  model: z.string(),
+  model: z.string().optional(), // the persona's model, or the default one, when omitted
   messages: z.array(
     z.object({
       role: z.enum(['system', 'user', 'assistant', 'tool']),
@@ -32,8 +41,12 @@ export const ExternalChatRequestDto = z.object({
     })
   ),
   stream: z.boolean().optional(),
+  events: z.boolean().optional(), // with stream, send progress events before the answer
   temperature: z.number().optional(),
   max_tokens: z.number().optional(),
+  budget: RequestBudget,
+  tool_mode: ToolMode,
+  persona_uuid: z.string().uuid().optional(), // falls back to the user's default persona
   user: z.object({
     uuid: z.string(),
     name: z.string(),
@@ -45,11 +58,15 @@ export const ExternalChatRequestDto = z.object({
 // Internal DTO using CoreMessage
 export const ChatRequestDto = z.object({
   conversation_id: z.string().optional(),
-  model: z.string(),
+  model: z.string().optional(),
   messages: z.array(z.custom<CoreMessage>()),
   stream: z.boolean().optional(),
+  events: z.boolean().optional(),
   temperature: z.number().optional().default(0.7),
   max_tokens: z.number().optional().default(16384),
+  budget: RequestBudget,
+  tool_mode: ToolMode,
+  persona_uuid: z.string().uuid().optional(),
   user: z.object({
     uuid: z.string(),
     name: z.string(),
@@ -0,0 +1,39 @@
+import {mkdir} from 'fs/promises';
+import {evalService, type ScenarioResult} from './services/agent/eval.service';
+
+// Runs scenarios through observe/draft/plan/next/use with stubbed or recorded completions, scores the decisions,
+// and writes a JSON and a Markdown report. Usage: bun run eval [scenario.json | directory ...] [--out <directory>]
+const args = process.argv.slice(2);
+const out_index = args.indexOf('--out');
+const out_directory = out_index >= 0 ? args[out_index + 1] : 'evals/reports';
+const paths = args.filter((_, index) => out_index < 0 || (index !== out_index && index !== out_index + 1));
+
+if (!out_directory) {
+  console.error('Usage: bun run eval [scenario.json | directory ...] [--out <directory>]');
+  process.exit(1);
+}
+
+const scenarios = await evalService.loadScenarios(paths.length > 0 ? paths : ['evals/scenarios']);
+
+if (scenarios.length === 0) {
+  console.error('[Eval] No scenarios found');
+  process.exit(1);
+}
+
+// One at a time, so a scenario's tool results and completions never end up in another's run
+const results: ScenarioResult[] = [];
+for (const {file, scenario} of scenarios) {
+  const result = await evalService.run(scenario, file);
+  console.log(`[Eval] ${result.passed ? 'pass' : 'FAIL'} ${scenario.name}${result.error ? ` (${result.error})` : ''}`);
+  results.push(result);
+}
+
+const report = evalService.summarize(results);
+const path = `${out_directory}/eval-${report.generated_at.replace(/[:.]/g, '-')}`;
+
+await mkdir(out_directory, {recursive: true});
+await Bun.write(`${path}.json`, JSON.stringify(report, null, 2));
+await Bun.write(`${path}.md`, evalService.toMarkdown(report));
+
+console.log(`[Eval] ${report.summary.passed}/${report.summary.scenarios} scenarios passed, report written to ${path}.md`);
+process.exit(report.summary.passed === report.summary.scenarios ? 0 : 1);
@@ -11,9 +11,17 @@ import {namingMiddleware} from './middleware/naming';
 import {mapperMiddleware} from './middleware/mapper';
 import tools from './routes/tools';
 import auth from './routes/auth';
-import { vectorService } from './services/common/vector.service';
+import { embeddingIndexService } from './services/common/embedding.index.service';
 import { cronService } from './services/common/cron.service';
 import conversation from './routes/conversation';
+import usage from './routes/usage';
+import personas from './routes/personas';
+import prompts from './routes/prompts';
+import cache from './routes/cache';
+import embeddings from './routes/embeddings';
+import openaiCompatible from './routes/openai';
+import {adminMiddleware} from './middleware/admin';
+import {promptService} from './services/agent/prompt.service';
 import { rateLimit } from './middleware/rate-limit';
 import { toolRegistrationService } from './services/agent/tool.registration.service';
 
@@ -45,6 +53,8 @@ app.use('*', rateLimit({
 }));
 
 app.use('/api/*', authMiddleware());
+app.use('/v1/*', authMiddleware());
+app.use('/api/admin/*', adminMiddleware);
 app.use('/api/agi/chat', namingMiddleware);
 app.use('/api/agi/chat', mapperMiddleware);
 
@@ -54,6 +64,12 @@ app.route('/api/agi', agi);
 app.route('/api/conversation', conversation);
 app.route('/api/files', files);
 app.route('/api/tools', tools);
+app.route('/api/usage', usage);
+app.route('/api/personas', personas);
+app.route('/api/admin/prompts', prompts);
+app.route('/api/admin/cache', cache);
+app.route('/api/admin/embeddings', embeddings);
+app.route('/v1', openaiCompatible);
 
 app.get('/', c => c.text('AGI is here.'));
 
@@ -71,8 +87,11 @@ process.on('SIGINT', cleanup);
 
 async function startServer() {
   // Initialize services
-  await vectorService.initializeCollection();
+  await embeddingIndexService.initialize();
   await cronService.initialize(1000).catch(console.error);
+  await promptService.load().catch(error => {
+    console.error('[Startup] Failed to load prompt versions, serving code defaults:', error);
+  });
   
   await toolRegistrationService.initializeTools().catch(error => {
     console.error("[Startup] Failed to initialize MCP tools:", error);
@@ -0,0 +1,10 @@
+import {Context, Next} from 'hono';
+
+// Runs after authMiddleware, which puts the user on the request
+export const adminMiddleware = async (c: Context, next: Next) => {
+  if (!c.get('request')?.user?.admin) {
+    return c.json({error: 'Admin access required'}, 403);
+  }
+
+  await next();
+};
@@ -1,7 +1,7 @@
 import {Context, Next} from 'hono';
 import * as userService from '../services/common/user.service';
 import {v4 as uuidv4} from 'uuid';
-import {providers} from '../config/llm.config';
+import {default_model, providers} from '../config/llm.config';
 
 export const authMiddleware = () => {
   return async (c: Context, next: Next) => {
@@ -32,9 +32,9 @@ export const authMiddleware = () => {
 
     const supported_models = Object.values(providers)
       .flatMap(provider => Object.keys(provider));
-    const default_model = 'gpt-4.1';
     const requested_model = is_multipart ? default_model : request_body.model;
-    const validated_model = supported_models.includes(requested_model) ? requested_model : default_model;
+    // Without a model, the user's persona picks it when the interaction state is loaded
+    const validated_model = !requested_model || supported_models.includes(requested_model) ? requested_model : default_model;
 
     if (requested_model && requested_model !== validated_model) {
       c.set('warning', `Invalid model '${requested_model}' requested. Using '${default_model}' instead.`);
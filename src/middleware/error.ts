@@ -1,6 +1,7 @@
 import {Context, MiddlewareHandler} from 'hono';
 import {HTTPException} from 'hono/http-exception';
 import {z} from 'zod';
+import {NotFoundError} from '../utils/errors';
 
 type ErrorResponse = {
   success: false;
@@ -25,6 +26,11 @@ export const errorHandler = (): MiddlewareHandler => async (c, next) => {
       return c.json(response, 400);
     }
 
+    if (error instanceof NotFoundError) {
+      response.message = error.message;
+      return c.json(response, 404);
+    }
+
     if (error instanceof HTTPException) {
       response.message = error.message;
       return c.json(response, error.status);
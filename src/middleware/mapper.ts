@@ -1,30 +1,60 @@
 import {Context, Next} from 'hono';
-import {ExternalChatRequestDto} from '../dto/chat.dto';
+import {ExternalChatRequestDto, type ExternalChatRequest} from '../dto/chat.dto';
 import {z} from 'zod';
 import {v4 as uuidv4} from 'uuid';
 import {uploadFile} from '../services/common/upload.service';
-import {CoreMessage, TextPart, ImagePart} from 'ai';
+import {CoreMessage, ImagePart} from 'ai';
 import {messageService} from '../services/agent/message.service';
+import {conversationService} from '../services/agent/conversation.service';
+import {NotFoundError} from '../utils/errors';
 import { FileType } from '../types/upload';
 
-const processImageData = async (imageData: string) => {
+const extensions: Record<string, string> = {'image/jpeg': 'jpg', 'image/png': 'png', 'image/gif': 'gif', 'image/webp': 'webp'};
+
+// Inline images are stored and passed on as links to our files endpoint; providers that can't read links
+// (e.g. Anthropic) get them downloaded and inlined again by the AI SDK
+const processImageData = async (imageData: string, mime_type = 'image/jpeg') => {
   if (imageData.startsWith('http')) return imageData;
 
-  const base64Data = imageData.startsWith('data:') ? imageData : `data:image/jpeg;base64,${imageData}`;
+  const media_type = imageData.match(/^data:([^;]+);base64,/)?.[1] ?? mime_type;
+  const base64Data = imageData.startsWith('data:') ? imageData : `data:${media_type};base64,${imageData}`;
 
   const upload_result = await uploadFile({
     uuid: uuidv4(),
-    file: {base64: base64Data, mime_type: 'image/jpeg'},
+    file: {base64: base64Data, mime_type: media_type},
     type: FileType.IMAGE,
-    original_name: 'image.jpg'
+    original_name: `image.${extensions[media_type] ?? 'jpg'}`
   });
 
   return `${process.env.APP_URL}/api/files/${upload_result.uuid}`;
 };
 
-const normalizeMessage = async (message: any): Promise<CoreMessage> => {
+type ContentPart = NonNullable<Exclude<ExternalChatRequest['messages'][number]['content'], string>>[number];
+
+// OpenAI sends images as `image_url`, Anthropic as `image` with a base64 or url `source`, the AI SDK as `image`
+const normalizeImagePart = async (part: ContentPart): Promise<ImagePart | null> => {
+  if (part.type === 'image_url' && part.image_url) {
+    return {type: 'image', image: await processImageData(part.image_url.url)};
+  }
+
+  if (part.type !== FileType.IMAGE) {
+    return null;
+  }
+
+  if (part.source?.type === 'base64') {
+    return {type: 'image', image: await processImageData(part.source.data, part.source.media_type), mimeType: part.source.media_type};
+  }
+
+  if (part.source?.type === 'url') {
+    return {type: 'image', image: part.source.url};
+  }
+
+  return part.image ? {type: 'image', image: await processImageData(part.image)} : null;
+};
+
+export const normalizeMessage = async (message: any): Promise<CoreMessage> => {
   const hasMultipartContent = Array.isArray(message.content);
-  const hasImageContent = hasMultipartContent && message.content.some((part: TextPart | ImagePart) => part.type === 'image' || part.type === 'image_url');
+  const hasImageContent = hasMultipartContent && message.content.some((part: ContentPart) => part.type === 'image' || part.type === 'image_url');
 
   if (!hasMultipartContent) {
     return {
@@ -33,21 +63,7 @@ const normalizeMessage = async (message: any): Promise<CoreMessage> => {
     } as CoreMessage;
   }
 
-  const normalizedContent = await Promise.all(
-    message.content.map(async (part: TextPart | ImagePart) => {
-      if (part.type === 'image_url') {
-        const processed_url = await processImageData(part.image_url!.url);
-        return {type: 'image', image: processed_url} as ImagePart;
-      }
-
-      if (part.type === FileType.IMAGE) {
-        const processed_url = await processImageData(part.image!);
-        return {type: 'image', image: processed_url} as ImagePart;
-      }
-
-      return part;
-    })
-  );
+  const normalizedContent = await Promise.all(message.content.map(async (part: ContentPart) => (await normalizeImagePart(part)) ?? part));
 
   return {
     ...message,
@@ -56,33 +72,50 @@ const normalizeMessage = async (message: any): Promise<CoreMessage> => {
   } as CoreMessage;
 };
 
-export const mapperMiddleware = async (c: Context, next: Next) => {
-  try {
-    const request = c.get('request') || {};
-    const external = ExternalChatRequestDto.parse(request);
-    const other_messages = external.messages.filter(msg => msg.role !== 'system');
+// The agent brings its own system prompts, so the client's are dropped; a conversation continued with only
+// its newest message gets the stored history in front of it
+export const toChatRequest = async (request: unknown) => {
+  const external = ExternalChatRequestDto.parse(request);
 
-    let messages_to_normalize = [...other_messages];
-
-    if (other_messages.length <= 1 && external.conversation_id) {
-      const previous_messages = await messageService.findByConversationId(external.conversation_id);
-      messages_to_normalize = [...previous_messages, ...other_messages];
+  // Another user's conversation is reported as missing, and neither its history is loaded nor the request added to it
+  if (external.conversation_id) {
+    const conversation = await conversationService.findByUuid(external.conversation_id);
+    if (conversation && conversation.user_id !== external.user.uuid) {
+      throw new NotFoundError('Conversation', {context: {conversation_uuid: external.conversation_id}});
     }
+  }
+
+  const other_messages = external.messages.filter(msg => msg.role !== 'system');
+
+  let messages_to_normalize = [...other_messages];
+
+  if (other_messages.length <= 1 && external.conversation_id) {
+    const previous_messages = await messageService.findByConversationId(external.conversation_id);
+    messages_to_normalize = [...previous_messages, ...other_messages];
+  }
 
-    const normalized_messages = await Promise.all(messages_to_normalize.map(normalizeMessage));
+  const normalized_messages = await Promise.all(messages_to_normalize.map(normalizeMessage));
 
-    console.log(`Query:`, normalized_messages.at(-1)?.content);
+  console.log(`Query:`, normalized_messages.at(-1)?.content);
 
-    c.set('request', {
-      ...external,
-      messages: normalized_messages
-    });
+  return {
+    ...external,
+    messages: normalized_messages
+  };
+};
+
+export const mapperMiddleware = async (c: Context, next: Next) => {
+  try {
+    c.set('request', await toChatRequest(c.get('request') || {}));
 
     await next();
   } catch (error) {
     if (error instanceof z.ZodError) {
       return c.json({error: 'Invalid request format', details: error.issues}, 400);
     }
+    if (error instanceof NotFoundError) {
+      return c.json({error: error.message}, 404);
+    }
     console.error('Mapper error:', error);
     return c.json({error: 'Invalid request body'}, 400);
   }
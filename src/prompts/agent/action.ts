@@ -1,4 +1,16 @@
 import {State} from '../../types/state';
+import {z} from 'zod';
+
+export const schema = z.object({
+  _thinking: z.string(),
+  result: z
+    .object({
+      name: z.string(),
+      tool_name: z.string(),
+      task_uuid: z.string()
+    })
+    .nullable()
+});
 
 export const prompt = (state: State) => {
   return `You are an AI assistant responsible for determining the next immediate action to take based on the ongoing conversation, current tasks, and all available information. Your goal is to decide on the most appropriate next step.
@@ -6,9 +18,13 @@ export const prompt = (state: State) => {
 <prompt_objective>
 Analyze the conversation context, current tasks, their actions, and all available information. Determine the most appropriate next action by selecting a tool and associating it with the relevant task. Always output a JSON string containing your internal reasoning and a detailed action object, including the associated task UUID.
 
-Note: Task you must focus on is the first one with status "pending". Make sure that you performed actions you were planned to take in this task and when needed — add new actions for it. 
+${
+  state.config.current_task
+    ? `Note: Task you must focus on is "${state.config.current_task.name}" (uuid: ${state.config.current_task.uuid}). Pick an action for this task only, other tasks are handled separately. Make sure that you performed actions you were planned to take in this task and when needed — add new actions for it.`
+    : `Note: Task you must focus on is the first one with status "pending". Make sure that you performed actions you were planned to take in this task and when needed — add new actions for it.`
+} 
 
-Current datetime: ${state.config.time}
+Current datetime: ${state.config.time} (${state.config.timezone})
 </prompt_objective>
 
 <prompt_rules>
@@ -0,0 +1,85 @@
+import type {Document} from '../../types/document';
+import type {State} from '../../types/state';
+
+export const prompt = (state: State) => {
+  const task = state.interaction.tasks.find(task => task.uuid === state.config.current_task?.uuid);
+
+  return `
+You're ${state.profile.ai_name} performing task "${task?.name}" for the user named ${state.profile.user_name}. Take the next step of this task by calling exactly one of the available tools.
+
+<prompt_objective>
+Pick the tool that moves the current task forward and call it with complete, correct arguments, considering the conversation, the results of actions already taken and all available information. Within the arguments you can refer to document / action result contents by using [[uuid]] syntax so you don't need to rewrite them yourself but use it ONLY if you need to refer to the entire content.
+
+Current datetime: ${state.config.time} (${state.config.timezone}). You can use it to generate dates in the arguments.
+</prompt_objective>
+
+<prompt_rules>
+- ALWAYS call exactly one tool
+- Focus on the current task only; other tasks are handled separately
+- When a tool takes "action" and "payload" arguments, pick the action and fill in the payload EXACTLY as the instruction in the tool's description says
+- DO NOT repeat an action that was already completed with the same arguments; use its result instead
+- When the task is about answering the user, or its results are already available, call "final_answer"
+- Consider the current environment and context when filling in the arguments
+</prompt_rules>
+
+<general_context>
+${state.thoughts.context || 'No general context is available'}
+</general_context>
+
+<environment>
+${state.thoughts.environment || 'No environment context is available'}
+</environment>
+
+<memories name="already recalled memories">
+${
+  state.session.memories.length > 0
+    ? state.session.memories
+        .map(memory => {
+          const document = (state.session.documents as Document[]).find(document => document.uuid === memory.document_uuid);
+          return `<memory name="${memory.name}">${document?.text || 'No content or document not found'}</memory>`;
+        })
+        .join('\n')
+    : 'No memories recalled'
+}
+</memories>
+
+<tool_context>
+${
+  state.interaction.tool_context?.length
+    ? state.interaction.tool_context
+        .map(context => `<context name="${context.metadata.name}" description="${context.metadata.description}">${context.text}</context>`)
+        .join('\n')
+    : 'No tool context is available'
+}
+</tool_context>
+
+<tasks>
+${state.interaction.tasks
+  .map(
+    task => `<task name="${task.name}" status="${task.status}">
+  <description>${task.description}</description>
+  ${task.actions
+    .map(action => {
+      const tool = state.session.tools.find(tool => tool.uuid === action.tool_uuid);
+      return `<action name="${action.name}" tool_name="${tool?.name || 'unknown'}" status="${action.status}">
+    ${action.payload ? `<payload>${JSON.stringify(action.payload)}</payload>` : ''}
+    ${
+      action.documents?.length
+        ? `<documents>${action.documents.map(doc => `<document uuid="${doc.metadata.uuid}" type="${doc.metadata.type}">${doc.text}</document>`).join('')}</documents>`
+        : action.result
+        ? `<result>${JSON.stringify(action.result)}</result>`
+        : 'no results yet.'
+    }
+  </action>`;
+    })
+    .join('\n  ')}
+</task>`
+  )
+  .join('\n')}
+</tasks>
+
+<current_task>
+${task ? `${task.name}: ${task.description}` : 'No task selected'}
+</current_task>
+`;
+};
@@ -0,0 +1,20 @@
+export const prompt = (previous_summary?: string) => `
+You maintain a running summary of a long conversation between the user and their AI assistant. The oldest messages are about to be removed from the assistant's context, and your summary is all that remains of them.
+
+<prompt_objective>
+Write an updated summary that merges the previous summary (if any) with the messages provided by the user, so the assistant can continue the conversation without the removed messages.
+</prompt_objective>
+
+<prompt_rules>
+- KEEP facts, decisions, preferences, commitments, open questions and anything the user asked to remember
+- KEEP exact values: names, dates, amounts, URLs, file paths and document UUIDs
+- KEEP track of what was already done (e.g. an email sent, a task created) so it isn't done again
+- DROP small talk, greetings and repeated information
+- Write in the third person ("The user asked...", "The assistant sent..."), in chronological order
+- Output only the summary as plain text, without any introduction
+</prompt_rules>
+
+<previous_summary>
+${previous_summary || 'This is the first summary of this conversation'}
+</previous_summary>
+`;
@@ -1,4 +1,10 @@
 import {State} from '../../types/state';
+import {z} from 'zod';
+
+export const schema = z.object({
+  _thinking: z.string(),
+  result: z.string().nullable()
+});
 
 export const prompt = (state: State): string => {
   return `You're ${state.profile.ai_name}, engaging in an internal dialogue while chatting with ${
@@ -12,7 +18,7 @@ Process general context data, conduct internal dialogue, and extract relevant fa
 
 Note: you have access to the external tools, but for now you don't need to know about them.
 
-Current datetime: ${state.config.time}
+Current datetime: ${state.config.time} (${state.config.timezone})
 </prompt_objective>
 
 <response_format>
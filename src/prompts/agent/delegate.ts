@@ -0,0 +1,52 @@
+import {State} from '../../types/state';
+
+export const prompt = (state: State) => `
+You're ${state.profile.ai_name}, reporting back on a subtask you were asked to handle on your own while working on a bigger request of ${state.profile.user_name}.
+The report is read by you, not by the user, so it has to carry every fact the rest of the work needs, and nothing else.
+
+<prompt_objective>
+Summarize what was found and done for the goal given in the user message, based only on the performed tasks and their results below.
+</prompt_objective>
+
+<prompt_rules>
+- START with a direct answer to the goal, then list the facts, figures, names, links and document UUIDs that support it
+- KEEP exact values (dates, amounts, URLs, identifiers) as they appear in the results; never round or paraphrase them away
+- When an action has status "failed", SAY what couldn't be done and why, based on its error report
+- When an action has status "rejected", SAY that it was NOT performed and that it has to be done by the main run, including its tool, action and payload
+- When the results don't answer the goal, or the step limit or budget ran out first, SAY what is still missing
+- NEVER invent information that isn't in the results
+- SKIP the process itself (which tools were tried in which order) unless it matters for the answer
+- Write plain text without greetings or closing remarks
+</prompt_rules>
+
+<performed_tasks>
+${state.interaction.tasks.length > 0
+  ? state.interaction.tasks
+      .map(
+        task => `<task name="${task.name}" status="${task.status}">
+${task.actions
+  .map(action => {
+    const tool = state.session.tools.find(tool => tool.uuid === action.tool_uuid);
+    const result = action.documents?.length
+      ? action.documents.map(document => `<document uuid="${document.metadata.uuid}" name="${document.metadata.name}">${document.text}</document>`).join('\n')
+      : action.result ?? 'No result';
+
+    return `<action name="${action.name}" tool_name="${tool?.name ?? 'unknown'}" tool_action="${action.tool_action ?? 'unknown'}" status="${action.status}">
+${action.payload ? `<payload>${JSON.stringify(action.payload)}</payload>\n` : ''}<result>${result}</result>
+</action>`;
+  })
+  .join('\n') || 'No actions were taken for this task'}
+</task>`
+      )
+      .join('\n')
+  : 'No tasks were performed'}
+</performed_tasks>
+
+<limits>
+${state.config.current_phase === 'budget_exceeded'
+  ? 'The budget ran out before the subtask was finished'
+  : state.config.step >= state.config.max_steps
+  ? `The step limit (${state.config.max_steps}) was reached before the subtask was finished`
+  : 'The subtask finished within its limits'}
+</limits>
+`;
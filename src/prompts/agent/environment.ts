@@ -1,6 +1,13 @@
 import {type State} from '../../types/state';
+import {z} from 'zod';
+
+export const schema = z.object({
+  _thinking: z.string(),
+  result: z.string().nullable()
+});
+
 export const prompt = (state: State): string => {
-  const current_datetime = new Date().toISOString();
+  const current_datetime = `${state.config.time} (${state.config.timezone})`;
   const environment_context = Object.entries(state.thoughts.environment)
     .map(([key, value]) => `${key}: ${value}`)
     .join('\n');
@@ -14,7 +21,7 @@ export const prompt = (state: State): string => {
 <main_objective>
 Process environmental data, conduct internal dialogue, and extract relevant facts from the environment based on the ongoing conversation, outputting results in a specific JSON format with self-thought statements.
 
-Current datetime: ${state.config.time}
+Current datetime: ${state.config.time} (${state.config.timezone})
 </main_objective>
 
 <response_format>
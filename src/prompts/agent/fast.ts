@@ -1,5 +1,11 @@
 
 import {State} from '../../types/state';
+import {z} from 'zod';
+
+export const schema = z.object({
+  _thinking: z.string(),
+  result: z.boolean()
+});
 
 export const prompt = (state: State) => {
   return `From now on, you will analyze each user input to determine whether a direct response is sufficient or if advanced capabilities (such as use of any tools and/or long-term memory) are necessary. Output your decision in JSON format.
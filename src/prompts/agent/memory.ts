@@ -1,4 +1,16 @@
 import {State} from '../../types/state';
+import {z} from 'zod';
+
+export const schema = z.object({
+  _thinking: z.string(),
+  result: z.array(
+    z.object({
+      query: z.string(),
+      category: z.string(),
+      subcategory: z.string()
+    })
+  )
+});
 
 export const prompt = (state: State) => `
 You're ${state.profile.ai_name}, engaging in an internal dialogue while chatting with the user named ${
@@ -11,7 +23,7 @@ Your task is to analyze the conversation context and generate relevant queries t
 Process the conversation context and output a JSON object containing the internal reasoning and an array of independent queries for each relevant memory category.
 Consider both general context and environment context to write more relevant queries. 
 
-Current datetime: ${state.config.time}
+Current datetime: ${state.config.time} (${state.config.timezone})
 </prompt_objective>
 
 <rules>
@@ -1,11 +1,29 @@
 import type {State} from '../../types/state';
+import type {Task} from '../../types/agent';
+import {z} from 'zod';
+
+export const schema = z.object({
+  _thinking: z.string(),
+  result: z.array(
+    z.object({
+      uuid: z.string().nullable(),
+      name: z.string(),
+      description: z.string(),
+      status: z.enum(['completed', 'pending']),
+      depends_on: z.array(z.string())
+    })
+  )
+});
+
+const dependencyNames = (state: State, task: Task) =>
+  (task.depends_on ?? []).map(uuid => state.interaction.tasks.find(dependency => dependency.uuid === uuid)?.name ?? uuid).join(', ');
 
 export const prompt = (state: State) => `
 You ${state.profile.ai_name} speaking to ${state.profile.user_name} and you're responsible for maintaining and updating a list of tasks based on ongoing conversations with the user. Tasks marked as completed can't be modified their role is only to give you a context about what you already did so even if the 'final_answer' is present but 'completed', feel free to add new tasks.
 
 Your goal is to ensure an accurate and relevant task list that reflects the user's current needs and progress, while utilizing your long-term memory when necessary. Task list must be finished with a "final_answer" task that contacts the user or provides a response.
 
-Current datetime: ${state.config.time}
+Current datetime: ${state.config.time} (${state.config.timezone})
 <prompt_objective>
 Respond with JSON string. Analyze the conversation context, including the user's latest request, completed tasks, and pending tasks. Update existing pending tasks or create new tasks as needed to fulfill the user's request, ensuring all tasks are executable with available tools. Preserve completed tasks without modification. When information about the user or task details is needed, search your long-term memory. Always include a final task to contact the user or provide a final answer. Output a JSON string containing your internal reasoning and an array of all tasks (both completed and pending), with updated or new tasks clearly indicated.
 
@@ -17,7 +35,7 @@ Important: Pay attention to the fact that some tools support batches so you can
 <prompt_rules>
 - ALWAYS output a valid JSON string with "_thinking" and "result" properties. Make sure to handle special characters like quotes and new lines properly.
 - The "_thinking" property MUST contain your detailed internal thought process, including analysis of conversation history, task relevance, tool availability, and memory search reasoning
-- The "result" property MUST be an array of task objects, each with "uuid", "name", "description", and "status" properties
+- The "result" property MUST be an array of task objects, each with "uuid", "name", "description", "status" and "depends_on" properties
 - "uuid" must be null for new tasks
 - "name" must be unique and not already used in the current tasks
 - ONLY create tasks that are directly executable with available tools
@@ -29,9 +47,14 @@ Important: Pay attention to the fact that some tools support batches so you can
 - Task names MUST be one or two words, using underscores instead of spaces
 - Task descriptions MUST provide precise, actionable steps or information needed for execution
 - The "status" property MUST be either "completed" or "pending"
+- "depends_on" MUST list the names of the tasks whose results this task needs before it can start, or be an empty array when it can start right away
+- Tasks that don't depend on each other are executed at the same time, so only add a dependency when the task really needs the other task's result
+- "final_answer" always waits for all other tasks, so it doesn't need to list them
 - Feel free to skip a step if you see that you already have necessary information or actions needed were already taken (but only if you're sure)
 - NEVER modify tasks marked as completed
+- Actions with status "failed" ran out of retries and their error report is attached. DO NOT plan the same action again; either try a different approach or mark the task as completed and let "final_answer" explain the failure
 - ONLY update pending tasks and/or create new tasks
+- When <loop_warning> is present, the system noticed you're going in circles. FOLLOW its advice and change the plan accordingly instead of repeating the previous steps
 - DO NOT create redundant tasks if an existing pending task serves the same purpose
 - COMPARE potential new tasks against existing tasks and available tools to avoid redundancy
 - If no updates or new tasks are needed, explain why in the "_thinking" section
@@ -42,8 +65,13 @@ Important: Pay attention to the fact that some tools support batches so you can
   2. Specific details about a task or topic that the user has previously mentioned are required
   3. There's an indication that relevant information might be stored in memory
 - When searching memory, create a specific "search_memory" task with clear search parameters
+- TAKE INTO ACCOUNT the <persona> instructions when deciding what to do, as long as they don't contradict the rules above
 </prompt_rules>
 
+<persona>
+${state.profile.instructions || 'No additional instructions'}
+</persona>
+
 <prompt_examples>
 USER: Hi!
 AI: {
@@ -53,13 +81,15 @@ AI: {
       "uuid": null,
       "name": "search_memory",
       "description": "Search long-term memory for profiles and relationship data: 1) ${state.profile.ai_name}'s personality traits, preferences, and behavioral patterns, 2) ${state.profile.user_name}'s background, preferences, and interaction style, 3) History of interactions and relationship dynamics between us, 4) Any established communication patterns or inside references.",
-      "status": "pending"
+      "status": "pending",
+      "depends_on": []
     },
     {
       "uuid": null,
       "name": "final_answer",
       "description": "Compose personalized greeting incorporating profile insights: 'Hello ${state.profile.user_name}! [Include relevant personality/relationship context from memory search]. How may I assist you today?'",
-      "status": "pending"
+      "status": "pending",
+      "depends_on": []
     }
   ]
 }
@@ -72,19 +102,22 @@ AI: {
       "uuid": null,
       "name": "search_memory",
       "description": "Search long-term memory for: 1) User's preferred vacation types (beach, city, adventure, etc.), 2) Previously mentioned dream destinations, 3) Any travel restrictions or preferences (budget, duration, etc.).",
-      "status": "pending"
+      "status": "pending",
+      "depends_on": []
     },
     {
       "uuid": null,
       "name": "vacation_research",
       "description": "Using the research tool: 1) List top 3 potential destinations based on memory search results, 2) Research accommodation options, flight availability, and prices, 3) Identify main attractions or activities at each destination, 4) Develop a draft itinerary for the best option including day-by-day activities and estimated costs.",
-      "status": "pending"
+      "status": "pending",
+      "depends_on": ["search_memory"]
     },
     {
       "uuid": null,
       "name": "final_answer",
       "description": "Present to user: 'I've researched vacation options based on your preferences. I've created a draft itinerary for [destination]. Would you like to review it or do you have any specific requests?'",
-      "status": "pending"
+      "status": "pending",
+      "depends_on": []
     }
   ]
 }
@@ -97,25 +130,29 @@ AI: {
       "uuid": null,
       "name": "check_calendar_and_todo_list",
       "description": "Check if there are any tasks related to the user's interview preparation both in the calendar and todo list.",
-      "status": "pending"
+      "status": "pending",
+      "depends_on": []
     },
     {
       "uuid": null,
       "name": "search_memory",
       "description": "Search long-term memory for: 1) User's current job or field, 2) Key skills and experiences, 3) Any information about the company or position they're interviewing for.",
-      "status": "pending"
+      "status": "pending",
+      "depends_on": []
     },
     {
       "uuid": null,
       "name": "interview_prep",
       "description": "Using research and summarize tools: 1) Research the company's background, values, and recent news, 2) Identify key projects or initiatives relevant to the user's potential role, 3) Prepare a list of 3-5 informed questions to ask during the interview, 4) Draft answers to common interview questions based on user's background, 5) Create a brief 'elevator pitch' introducing the user and their qualifications.",
-      "status": "pending"
+      "status": "pending",
+      "depends_on": ["check_calendar_and_todo_list", "search_memory"]
     },
     {
       "uuid": null,
       "name": "final_answer",
       "description": "Inform user: 'I've completed your interview preparation. I've researched the company, prepared response drafts, and created an elevator pitch. Would you like to review this information or focus on any specific aspects of the interview?'",
-      "status": "pending"
+      "status": "pending",
+      "depends_on": []
     }
   ]
 }
@@ -150,7 +187,7 @@ ${state.session.tools.map(tool => `<tool name="${tool.name}">${tool.description
 ${state.interaction.tasks
   .map(
     task => `
-<task uuid="${task.uuid}" name="${task.name}" status="${task.status}">
+<task uuid="${task.uuid}" name="${task.name}" status="${task.status}" depends_on="${dependencyNames(state, task)}">
   <description>${task.description}</description>
   <actions>
     ${
@@ -187,6 +224,10 @@ ${state.interaction.tasks
   )
   .join('\n')}
 </current_tasks>
+${state.config.loop_warning ? `
+<loop_warning>
+${state.config.loop_warning}
+</loop_warning>` : ''}
 </dynamic_context>
 
 <execution_validation>
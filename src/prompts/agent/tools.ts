@@ -1,4 +1,15 @@
 import {State} from '../../types/state';
+import {z} from 'zod';
+
+export const schema = z.object({
+  _thinking: z.string(),
+  result: z.array(
+    z.object({
+      query: z.string(),
+      tool: z.string()
+    })
+  )
+});
 
 export const prompt = (state: State) => `
 You're ${state.profile.ai_name}, engaging in an internal dialogue while chatting with ${
@@ -11,7 +22,7 @@ Consider both general context and environment context to write more relevant que
 
 Note: *prompt_examples* shows only the patterns of expected behavior, not the real data nor queries.
 
-Current datetime: ${state.config.time}
+Current datetime: ${state.config.time} (${state.config.timezone})
 </prompt_objective>
 
 <prompt_rules>
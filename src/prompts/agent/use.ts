@@ -1,5 +1,14 @@
 import { Document } from '../../types/document';
 import type {State} from '../../types/state';
+import {z} from 'zod';
+
+export const schema = z.object({
+  _thinking: z.string(),
+  result: z.object({
+    action: z.string(),
+    payload: z.record(z.unknown())
+  })
+});
 
 export const prompt = (state: State) => {
   const task = state.interaction.tasks.find(t => t.uuid === state.config.current_task?.uuid);
@@ -16,7 +25,7 @@ Generate a valid JSON string payload for the selected tool following its specifi
 
 Note: Focus on *current_action* and keep in mind that it may be middle-step in a longer task the user want you to achieve. So if the *current_action* suggests that this is a middle-step (such as searching for information) you should follow it first.
 
-Current datetime: ${state.config.time}. You can use it to generate dates in the payload.
+Current datetime: ${state.config.time} (${state.config.timezone}). You can use it to generate dates in the payload.
 </prompt_objective>
 
 <prompt_rules>
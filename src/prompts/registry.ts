@@ -0,0 +1,46 @@
+import {prompt as actionPrompt} from './agent/action';
+import {prompt as answerPrompt} from './agent/answer';
+import {prompt as callPrompt} from './agent/call';
+import {prompt as compactionPrompt} from './agent/compaction';
+import {prompt as contextPrompt} from './agent/context';
+import {prompt as delegatePrompt} from './agent/delegate';
+import {prompt as environmentPrompt} from './agent/environment';
+import {prompt as fastTrackPrompt} from './agent/fast';
+import {prompt as memoryPrompt} from './agent/memory';
+import {prompt as taskPrompt} from './agent/task';
+import {prompt as toolsPrompt} from './agent/tools';
+import {prompt as usePrompt} from './agent/use';
+import {prompt as fileWritePrompt} from './tools/file.write';
+import {memoryRecallPrompt} from './tools/memory.recall';
+import {prompt as searchAskPrompt} from './tools/search.ask';
+import {prompt as searchPickPrompt} from './tools/search.pick';
+import {prompt as searchUsePrompt} from './tools/search.use';
+import {prompt as spotifyPlayPrompt} from './tools/spotify.play';
+
+// Code defaults of every prompt that can be overridden at runtime. Each takes a single object,
+// which is what the {{path}} placeholders of an override are read from.
+export const default_prompts = {
+  'agent/action': actionPrompt,
+  'agent/answer': answerPrompt,
+  'agent/call': callPrompt,
+  'agent/compaction': ({previous_summary}: {previous_summary?: string}) => compactionPrompt(previous_summary),
+  'agent/context': contextPrompt,
+  'agent/delegate': delegatePrompt,
+  'agent/environment': environmentPrompt,
+  'agent/fast': fastTrackPrompt,
+  'agent/memory': memoryPrompt,
+  'agent/task': taskPrompt,
+  'agent/tools': toolsPrompt,
+  'agent/use': usePrompt,
+  'tools/file.write': fileWritePrompt,
+  'tools/memory.recall': memoryRecallPrompt,
+  'tools/search.ask': ({allowed_domains}: {allowed_domains: Parameters<typeof searchAskPrompt>[0]}) => searchAskPrompt(allowed_domains),
+  'tools/search.pick': searchPickPrompt,
+  'tools/search.use': (_: Record<string, never>) => searchUsePrompt(),
+  'tools/spotify.play': spotifyPlayPrompt
+};
+
+export type PromptName = keyof typeof default_prompts;
+export type PromptArgs<N extends PromptName> = Parameters<(typeof default_prompts)[N]>[0];
+
+export const isPromptName = (name: string): name is PromptName => name in default_prompts;
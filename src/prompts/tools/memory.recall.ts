@@ -1,8 +1,7 @@
 import { memory_categories } from "../../config/memory.config";
-import { stateManager } from "../../services/agent/state.service";
+import type { State } from "../../types/state";
 
-export const memoryRecallPrompt = () => {
-    const state = stateManager.getState();
+export const memoryRecallPrompt = (state: State) => {
     state.profile.ai_name = 'Alice';
     state.profile.user_name = 'Adam';
     return `You're ${state.profile.ai_name}, speaking with ${state.profile.user_name} who canno't hear you right now since you're thinking right now about the questions you have to ask yourself to recall memories that will help you gather the information described in the user's query.
@@ -11,7 +10,7 @@ export const memoryRecallPrompt = () => {
     Ask yourself questions against memory map categories that will be used to perform semantic and keyword search to retrieve relevant memories.
     Your response have to be in JSON string format that follows the rules, matches target schema and follows the pattern (not data) presented in the examples.
     
-    Current datetime: ${state.config.time}
+    Current datetime: ${state.config.time} (${state.config.timezone})
     </objective>
 
     <target_schema>
@@ -165,7 +164,7 @@ export const memoryRecallPrompt = () => {
     </current_environment>
 
     <memory_map>
-        ${memory_categories.map(category => 
+        ${memory_categories.filter(category => !state.profile.memory_categories || state.profile.memory_categories.includes(category.name)).map(category => 
             `<memory name="${category.name}" subcategory="${category.subcategory}">${category.description}</memory>`
         ).join('\n        ')}
     </memories>
@@ -0,0 +1,65 @@
+import {v4 as uuidv4} from 'uuid';
+import type {CoreMessage} from 'ai';
+import {createStateManager} from './services/agent/state.service';
+import {isOverBudget, setInteractionState} from './services/agent/agi.service';
+import {aiService} from './services/agent/ai.service';
+import {observer} from './services/agent/observer.service';
+import {toolRegistrationService} from './services/agent/tool.registration.service';
+import {completion} from './services/common/llm.service';
+import {fixtureService, type Fixture} from './services/common/fixture.service';
+import {trackUsage} from './services/common/usage.service';
+import {promptService} from './services/agent/prompt.service';
+
+// Replays a fixture recorded with AGI_RECORD_FIXTURES through the current agent code, without network or API keys.
+// Usage: bun run replay <fixture.json>
+const fixture_path = process.argv[2];
+
+if (!fixture_path) {
+  console.error('Usage: bun run replay <fixture.json>');
+  process.exit(1);
+}
+
+const fixture: Fixture = await Bun.file(fixture_path).json();
+toolRegistrationService.initializeFromFixture(fixture);
+
+// A fresh conversation keeps the replay from picking up tasks or memories of the recorded one
+const request = {...fixture.request, conversation_id: uuidv4()};
+const stateManager = createStateManager();
+const conversation_id = await setInteractionState(stateManager, request);
+
+fixtureService.startReplay(stateManager, fixture);
+
+const trace = await observer.initializeTrace(conversation_id, stateManager.getState());
+
+try {
+  if (isOverBudget(stateManager.getState())) {
+    stateManager.updateConfig({current_phase: 'budget_exceeded'});
+  } else {
+    await aiService.fastTrack(stateManager, trace);
+
+    if (!stateManager.getState().config.fast_track) {
+      await aiService.think(stateManager, trace);
+    }
+  }
+
+  const state = stateManager.getState();
+  const messages: CoreMessage[] = [{role: 'system', content: promptService.render('agent/answer', state, conversation_id).content}, ...(state.interaction.messages as CoreMessage[])];
+  await completion.text({...request, model: state.config.model, messages, usage: trackUsage(stateManager, 'answer')});
+} catch (error) {
+  console.error('[Replay] The run stopped early:', error instanceof Error ? error.message : error);
+}
+
+const report = fixtureService.finishReplay(conversation_id);
+
+for (const divergence of report.divergences) {
+  console.log(`[Replay] ${divergence.kind} #${divergence.index} diverged`);
+  console.log(`  expected: ${JSON.stringify(divergence.expected)}`);
+  console.log(`  actual:   ${JSON.stringify(divergence.actual)}`);
+}
+
+if (report.unused_completions.length > 0 || report.unused_tool_calls.length > 0) {
+  console.log('[Replay] Recorded but never requested:', JSON.stringify({completions: report.unused_completions, tool_calls: report.unused_tool_calls}));
+}
+
+console.log(report.divergences.length === 0 ? '[Replay] No divergences' : `[Replay] ${report.divergences.length} divergence(s)`);
+process.exit(report.divergences.length === 0 ? 0 : 1);
@@ -1,44 +1,62 @@
-import {Hono} from 'hono';
+import {Hono, type Context} from 'hono';
 import {AppEnv} from '../types/hono';
 import {completion} from '../services/common/llm.service';
-import {streamResponse} from '../utils/response';
+import {streamResponse, streamWithProgress, toErrorResponse} from '../utils/response';
 import {isChatCompletion, isStreamResponse} from '../types/guards';
-import {setAssistantResponse, setInteractionState} from '../services/agent/agi.service';
+import {
+  activeRuns,
+  findInterruptedRuns,
+  isOverBudget,
+  restoreAwaitingAction,
+  restoreInterruptedRun,
+  setAssistantResponse,
+  setInteractionState
+} from '../services/agent/agi.service';
 import {observer} from '../services/agent/observer.service';
-import {prompt as answerPrompt} from '../prompts/agent/answer';
+import {promptService} from '../services/agent/prompt.service';
 
 import {CoreMessage} from 'ai';
-import {stateManager} from '../services/agent/state.service';
+import {LangfuseTraceClient} from 'langfuse';
+import {z} from 'zod';
+import {createStateManager, type StateManager} from '../services/agent/state.service';
 import {aiService} from '../services/agent/ai.service';
 import {taskService} from '../services/agent/task.service';
 import {actionService} from '../services/agent/action.service';
+import {ChatRequest} from '../dto/chat.dto';
+import {trackUsage} from '../services/common/usage.service';
+import {fixtureService} from '../services/common/fixture.service';
+import {v4 as uuidv4} from 'uuid';
 
-export default new Hono<AppEnv>().post('/chat', async c => {
-  const request = c.get('request');
-
-  const conversation_id = await setInteractionState(request);
-
-  // Ensure trace is initialized before use
-  const trace = await observer.initializeTrace(request.conversation_id || 'general');
-  if (!trace) {
-    throw new Error('Failed to initialize trace');
-  }
-
-  await aiService.fastTrack(trace);
-  let state = stateManager.getState();
+const ResumeRequestDto = z.object({
+  payload: z.record(z.unknown()).optional(),
+  reason: z.string().optional(),
+  stream: z.boolean().optional(),
+  events: z.boolean().optional()
+});
 
-  if (!state.config.fast_track) {
-    await aiService.think(trace);
+// Holds the conversation's claim until the run and its answer settle, which with progress events is after the handler
+// has returned
+const releasing = <T>(release: () => void, run: () => Promise<T>) => async () => {
+  try {
+    return await run();
+  } finally {
+    release();
   }
+};
 
-  state = stateManager.getState();
+const answer = async (c: Context<AppEnv>, stateManager: StateManager, trace: LangfuseTraceClient, request: ChatRequest, conversation_id: string) => {
+  const state = stateManager.getState();
+  stateManager.emitProgress({type: 'phase', phase: 'answer', step: state.config.step});
 
-  const messages: CoreMessage[] = [{role: 'system', content: answerPrompt(state)}, ...request.messages];
+  // The run's messages, since older turns of a long conversation were compacted into a summary when it started
+  const answer_prompt = promptService.render('agent/answer', state, conversation_id);
+  const messages: CoreMessage[] = [{role: 'system', content: answer_prompt.content}, ...(state.interaction.messages as CoreMessage[])];
 
-  const final_generation = observer.startGeneration({name: 'final_answer', input: messages});
+  const final_generation = observer.startGeneration(trace.id, {name: 'final_answer', input: messages, model: state.config.model, ...promptService.observe(answer_prompt)});
+  const usage = trackUsage(stateManager, 'answer');
   const result = request.stream
-    ? await completion.stream({...request, messages})
-    : await completion.text({...request, messages}, true);
+    ? await completion.stream({...request, model: state.config.model, messages, usage, generation: final_generation})
+    : await completion.text({...request, model: state.config.model, messages, usage, generation: final_generation}, true);
 
   if (!request.stream && isChatCompletion(result)) {
     observer.endGeneration(final_generation.id, result);
@@ -46,7 +64,8 @@ export default new Hono<AppEnv>().post('/chat', async c => {
     const final_task = state.interaction.tasks.find(task => task.type === 'final');
     const response_content = result.choices[0]?.message?.content || '';
 
-    if (final_task) {
+    // A run paused for approval isn't finished yet, so its final task stays pending
+    if (final_task && state.config.current_phase !== 'awaiting_approval') {
       await Promise.all([
         taskService.updateTaskStatus(final_task.uuid, 'completed'),
         taskService.updateTaskResult(final_task.uuid, response_content),
@@ -54,7 +73,8 @@ export default new Hono<AppEnv>().post('/chat', async c => {
       ]);
     }
 
-    await setAssistantResponse({conversation_id, response: result});
+    await setAssistantResponse({conversation_id, response: result, stateManager});
+    await observer.finalizeTrace(trace.id, request.messages, [result], stateManager.getState());
   }
 
   return request.stream && isStreamResponse(result)
@@ -62,7 +82,165 @@ export default new Hono<AppEnv>().post('/chat', async c => {
         traceId: trace.id,
         generationId: final_generation.id,
         messages: request.messages,
-        conversation_id
+        conversation_id,
+        stateManager
       })
     : c.json(result);
-})
+};
+
+const resolveApproval = (decision: 'approve' | 'reject') => async (c: Context<AppEnv>) => {
+  const request = c.get('request');
+  const {payload, reason, stream, events} = ResumeRequestDto.parse(request);
+
+  const stateManager = createStateManager();
+  let restored: Awaited<ReturnType<typeof restoreAwaitingAction>>;
+
+  // Claims the action's conversation as soon as it's known, before loading any state
+  try {
+    restored = await restoreAwaitingAction(stateManager, c.req.param('action_uuid'), request, decision);
+  } catch (error) {
+    const {body, status} = toErrorResponse(error, `Failed to ${decision} the action`);
+    return c.json(body, status);
+  }
+
+  if (!restored) {
+    return c.json({error: 'No action awaiting approval found'}, 404);
+  }
+
+  const {conversation_id, release} = restored;
+
+  try {
+    const trace = await observer.initializeTrace(conversation_id, stateManager.getState());
+
+    const run = releasing(release, async () => {
+      const resolution_span = trace.span({name: `action_${decision}`});
+
+      if (decision === 'approve') {
+        await aiService.approve(stateManager, payload, resolution_span);
+      } else {
+        await aiService.reject(stateManager, reason, resolution_span);
+      }
+
+      resolution_span.end();
+
+      // Continue the reasoning loop from the step after the resolved action
+      stateManager.updateConfig({
+        step: stateManager.getState().config.step + 1,
+        current_phase: 'reasoning'
+      });
+      await aiService.think(stateManager, trace);
+
+      const messages = stateManager.getState().interaction.messages as CoreMessage[];
+      return answer(c, stateManager, trace, {...request, messages, stream}, conversation_id);
+    });
+
+    return stream && events ? streamWithProgress(c, stateManager, run) : run();
+  } catch (error) {
+    release();
+    throw error;
+  }
+};
+
+// Runs the agent on a mapped chat request and answers in OpenAI's format; also serves the virtual model of /v1
+export const chat = async (c: Context<AppEnv>, request: ChatRequest) => {
+  // Every request works on its own state so concurrent conversations stay isolated
+  const stateManager = createStateManager();
+
+  // Claimed before the conversation is created or touched; overlapping chats in one conversation each hold a claim
+  const conversation_uuid = request.conversation_id || uuidv4();
+  const release = activeRuns.claim(conversation_uuid);
+
+  try {
+    const conversation_id = await setInteractionState(stateManager, {...request, conversation_id: conversation_uuid});
+
+    // Ensure trace is initialized before use
+    const trace = await observer.initializeTrace(request.conversation_id || 'general', stateManager.getState());
+    if (!trace) {
+      throw new Error('Failed to initialize trace');
+    }
+
+    const run = releasing(release, async () => {
+      fixtureService.startRecording(stateManager, request);
+
+      try {
+        // A user who is already out of budget gets an answer explaining it instead of a reasoning loop
+        if (isOverBudget(stateManager.getState())) {
+          stateManager.updateConfig({current_phase: 'budget_exceeded'});
+        } else {
+          await aiService.fastTrack(stateManager, trace);
+
+          if (!stateManager.getState().config.fast_track) {
+            await aiService.think(stateManager, trace);
+          }
+        }
+
+        return await answer(c, stateManager, trace, request, conversation_id);
+      } finally {
+        fixtureService.stopRecording(conversation_id);
+      }
+    });
+
+    // Clients that opt into events see what Alice is doing before the answer starts streaming
+    return request.stream && request.events ? streamWithProgress(c, stateManager, run) : run();
+  } catch (error) {
+    release();
+    throw error;
+  }
+};
+
+export default new Hono<AppEnv>()
+  .post('/chat', async c => {
+    // Errors found before the run starts, such as an unknown persona, get their own status
+    try {
+      return await chat(c, c.get('request'));
+    } catch (error) {
+      const {body, status} = toErrorResponse(error, 'Failed to process the chat request');
+      return c.json(body, status);
+    }
+  })
+  .get('/runs/interrupted', async c => {
+    const request = c.get('request');
+    const runs = await findInterruptedRuns(request.user.uuid);
+
+    return c.json({runs});
+  })
+  .post('/runs/:conversation_uuid/resume', async c => {
+    const request = c.get('request');
+    const {stream, events} = ResumeRequestDto.parse(request);
+
+    const stateManager = createStateManager();
+    let release: () => void;
+
+    // Claimed before the first await, so a second resume of the same run is refused rather than run twice
+    try {
+      release = activeRuns.claimExclusive(c.req.param('conversation_uuid'));
+    } catch (error) {
+      const {body, status} = toErrorResponse(error, 'Failed to resume the run');
+      return c.json(body, status);
+    }
+
+    try {
+      const conversation_id = await restoreInterruptedRun(stateManager, c.req.param('conversation_uuid'), request);
+
+      if (!conversation_id) {
+        release();
+        return c.json({error: 'No interrupted run found for this conversation'}, 404);
+      }
+
+      const trace = await observer.initializeTrace(conversation_id, stateManager.getState());
+
+      const run = releasing(release, async () => {
+        await aiService.resume(stateManager, trace);
+
+        const messages = stateManager.getState().interaction.messages as CoreMessage[];
+        return answer(c, stateManager, trace, {...request, messages, stream}, conversation_id);
+      });
+
+      return stream && events ? streamWithProgress(c, stateManager, run) : run();
+    } catch (error) {
+      release();
+      throw error;
+    }
+  })
+  .post('/actions/:action_uuid/approve', resolveApproval('approve'))
+  .post('/actions/:action_uuid/reject', resolveApproval('reject'));
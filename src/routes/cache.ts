@@ -0,0 +1,29 @@
+import {Hono} from 'hono';
+import {AppEnv} from '../types/hono';
+import {z} from 'zod';
+import {completionCacheService} from '../services/common/cache.service';
+import {toErrorResponse} from '../utils/response';
+
+const PurgeQueryDto = z.object({
+  model: z.string().optional(),
+  kind: z.enum(['text', 'tool_call', 'object']).optional(),
+  expired_only: z.enum(['true', 'false']).optional().transform(value => value === 'true')
+});
+
+export default new Hono<AppEnv>()
+  .get('/', async c => {
+    try {
+      return c.json(await completionCacheService.stats());
+    } catch (error) {
+      return c.json({error: 'Failed to fetch completion cache stats'}, 500);
+    }
+  })
+  .delete('/', async c => {
+    try {
+      const deleted = await completionCacheService.purge(PurgeQueryDto.parse(c.req.query()));
+      return c.json({deleted});
+    } catch (error) {
+      const {body, status} = toErrorResponse(error, 'Failed to purge the completion cache');
+      return c.json(body, status);
+    }
+  });
@@ -1,33 +1,45 @@
 import {Hono} from 'hono';
 import {AppEnv} from '../types/hono';
 import {conversationService} from '../services/agent/conversation.service';
+import {activeRuns} from '../services/agent/agi.service';
 import {z} from 'zod';
 import {v4 as uuidv4} from 'uuid';
+import {toErrorResponse} from '../utils/response';
+
+const ListQueryDto = z.object({
+  status: z.enum(['active', 'archived', 'delegated']).optional(),
+  from: z.string().datetime({offset: true}).optional(),
+  to: z.string().datetime({offset: true}).optional(),
+  q: z.string().trim().min(1).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  per_page: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+const RenameDto = z.object({
+  name: z.string().trim().min(1).max(200)
+});
 
 export default new Hono<AppEnv>()
   .get('/', async c => {
     try {
       const request = c.get('request');
-      const user = request.user;
-      const conversations = await conversationService.getRecentConversations({user_id: user.uuid, limit: 1});
-      return c.json({conversations});
+      const {status, from, to, q, page, per_page} = ListQueryDto.parse(c.req.query());
+      const result = await conversationService.list({user_id: request.user.uuid, status, from, to, query: q, page, per_page});
+      return c.json(result);
     } catch (error) {
-      return c.json({error: 'Failed to fetch conversations'}, 500);
+      const {body, status} = toErrorResponse(error, 'Failed to fetch conversations');
+      return c.json(body, status);
     }
   })
   .get('/:conversation_uuid', async c => {
     try {
-      const conversation_uuid = c.req.param('conversation_uuid');
-      const conversation = await conversationService.findByUuid(conversation_uuid);
-      
-      if (!conversation) {
-        return c.json({error: 'Conversation not found'}, 404);
-      }
-
-      const messages = await conversationService.getConversationMessages(conversation_uuid);
+      const request = c.get('request');
+      const conversation = await conversationService.findOwned(c.req.param('conversation_uuid'), request.user.uuid);
+      const messages = await conversationService.getConversationMessages(conversation.uuid);
       return c.json({conversation, messages});
     } catch (error) {
-      return c.json({error: 'Failed to fetch conversation'}, 500);
+      const {body, status} = toErrorResponse(error, 'Failed to fetch conversation');
+      return c.json(body, status);
     }
   })
   .post('/new', async c => {
@@ -37,7 +49,7 @@ export default new Hono<AppEnv>()
       const {name} = z.object({
         name: z.string().optional()
       }).parse(body);
-      
+
       const conversation = await conversationService.create({
         uuid: uuidv4(),
         user_id: request.user.uuid,
@@ -52,4 +64,51 @@ export default new Hono<AppEnv>()
       }
       return c.json({error: 'Failed to create conversation'}, 500);
     }
-  }); 
\ No newline at end of file
+  })
+  .patch('/:conversation_uuid', async c => {
+    try {
+      const request = c.get('request');
+      const {name} = RenameDto.parse(await c.req.json());
+      const {uuid} = await conversationService.findOwned(c.req.param('conversation_uuid'), request.user.uuid);
+      return c.json({conversation: await conversationService.update(uuid, {name})});
+    } catch (error) {
+      const {body, status} = toErrorResponse(error, 'Failed to rename conversation');
+      return c.json(body, status);
+    }
+  })
+  .post('/:conversation_uuid/archive', async c => {
+    try {
+      const request = c.get('request');
+      const {uuid} = await conversationService.findOwned(c.req.param('conversation_uuid'), request.user.uuid);
+      return c.json({conversation: await conversationService.update(uuid, {status: 'archived'})});
+    } catch (error) {
+      const {body, status} = toErrorResponse(error, 'Failed to archive conversation');
+      return c.json(body, status);
+    }
+  })
+  .post('/:conversation_uuid/unarchive', async c => {
+    try {
+      const request = c.get('request');
+      const {uuid} = await conversationService.findOwned(c.req.param('conversation_uuid'), request.user.uuid);
+      return c.json({conversation: await conversationService.update(uuid, {status: 'active'})});
+    } catch (error) {
+      const {body, status} = toErrorResponse(error, 'Failed to unarchive conversation');
+      return c.json(body, status);
+    }
+  })
+  .delete('/:conversation_uuid', async c => {
+    try {
+      const request = c.get('request');
+      const {uuid} = await conversationService.findOwned(c.req.param('conversation_uuid'), request.user.uuid);
+
+      // A running agent would keep writing tasks and messages into the conversation being removed
+      if (activeRuns.has(uuid)) {
+        return c.json({error: 'The conversation has a run in progress'}, 409);
+      }
+
+      return c.json({deleted: await conversationService.delete(uuid)});
+    } catch (error) {
+      const {body, status} = toErrorResponse(error, 'Failed to delete conversation');
+      return c.json(body, status);
+    }
+  });
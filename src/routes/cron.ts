@@ -3,6 +3,7 @@ import { zValidator } from '@hono/zod-validator';
 import { z } from 'zod';
 import { v4 as uuidv4 } from 'uuid';
 import { cronService } from '../services/common/cron.service';
+import { getTimeSettings } from '../services/common/user.service';
 import type { AppEnv } from '../types/hono';
 
 // Input validation schemas
@@ -19,6 +20,7 @@ const cron = new Hono<AppEnv>()
   .post('/', zValidator('json', CreateJobSchema), async (c) => {
     try {
       const job_data = c.req.valid('json');
+      const { timezone } = getTimeSettings(c.get('request').user);
       const task_uuid = uuidv4();
       
       // Convert due_date to schedule format if provided
@@ -36,6 +38,7 @@ const cron = new Hono<AppEnv>()
         type: job_data.type,
         schedule,
         task_uuid,
+        timezone,
         metadata: {
           description: job_data.description,
           ...job_data.metadata
@@ -0,0 +1,39 @@
+import {Hono} from 'hono';
+import {AppEnv} from '../types/hono';
+import {z} from 'zod';
+import {embeddingIndexService} from '../services/common/embedding.index.service';
+import {vectorService} from '../services/common/vector.service';
+import {embedding_models} from '../config/llm.config';
+import {toErrorResponse} from '../utils/response';
+
+const ReembedDto = z.object({
+  model: z.string()
+});
+
+export default new Hono<AppEnv>()
+  .get('/', async c => {
+    try {
+      const indexes = await embeddingIndexService.list();
+      return c.json({models: embedding_models, active: vectorService.activeIndex(), indexes});
+    } catch (error) {
+      return c.json({error: 'Failed to fetch embedding indexes'}, 500);
+    }
+  })
+  .get('/:index_uuid', async c => {
+    try {
+      return c.json({index: await embeddingIndexService.get(c.req.param('index_uuid'))});
+    } catch (error) {
+      const {body, status} = toErrorResponse(error, 'Failed to fetch embedding index');
+      return c.json(body, status);
+    }
+  })
+  .post('/reembed', async c => {
+    try {
+      const {model} = ReembedDto.parse(await c.req.json());
+      const index = await embeddingIndexService.reembed(model);
+      return c.json({index}, 202);
+    } catch (error) {
+      const {body, status} = toErrorResponse(error, 'Failed to start the re-embedding');
+      return c.json(body, status);
+    }
+  });
@@ -2,6 +2,7 @@ import { Hono } from 'hono';
 import { AppEnv } from '../types/hono';
 import { z } from 'zod';
 import { memoryService } from '../services/agent/memory.service';
+import { createStateManager } from '../services/agent/state.service';
 
 const SearchRequestSchema = z.object({
   query: z.string(),
@@ -25,10 +26,15 @@ const memory = new Hono<AppEnv>()
         return c.json({ success: false, error: 'Text is required' }, 400);
       }
 
+      const user = c.get('request').user;
+      const stateManager = createStateManager();
+      stateManager.updateConfig({ user_uuid: user.uuid, conversation_uuid: conversation_uuid || 'default' });
+      stateManager.updateProfile({ user_name: user.name });
+
       const result = await memoryService.execute('remember', {
         name, text, category, subcategory,
         conversation_uuid: conversation_uuid || 'default'
-      });
+      }, undefined, stateManager);
 
       return c.json({ success: true, data: result });
     } catch (error) {
@@ -53,13 +59,18 @@ const memory = new Hono<AppEnv>()
           );
         }
   
+        const user = c.get('request').user;
+        const stateManager = createStateManager();
+        stateManager.updateConfig({ user_uuid: user.uuid, conversation_uuid: conversation_uuid || 'default' });
+        stateManager.updateProfile({ user_name: user.name });
+  
         const result = await memoryService.execute('update', {
           memory_uuid,
           name,
           category_uuid,
           text,
           conversation_uuid: conversation_uuid || 'default'
-        });
+        }, undefined, stateManager);
   
         return c.json({
           success: true,
@@ -85,7 +96,12 @@ const memory = new Hono<AppEnv>()
         conversation_uuid: body.conversation_uuid
       });
 
-      const result = await memoryService.execute('recall', parsed);
+      const user = c.get('request').user;
+      const stateManager = createStateManager();
+      stateManager.updateConfig({ user_uuid: user.uuid, conversation_uuid: parsed.conversation_uuid });
+      stateManager.updateProfile({ user_name: user.name });
+
+      const result = await memoryService.execute('recall', parsed, undefined, stateManager);
       return c.json({ success: true, data: result });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -0,0 +1,161 @@
+import {Hono, type Context} from 'hono';
+import {AppEnv} from '../types/hono';
+import {z} from 'zod';
+import type {CoreMessage} from 'ai';
+import {agent_model, providers} from '../config/llm.config';
+import {completion, generateChunk} from '../services/common/llm.service';
+import {usageService} from '../services/common/usage.service';
+import {findByUUID} from '../services/common/user.service';
+import type {User} from '../schema/user';
+import {normalizeMessage, toChatRequest} from '../middleware/mapper';
+import {isChatCompletion} from '../types/guards';
+import {chat} from './agi';
+import {NotFoundError} from '../utils/errors';
+
+const ContentPart = z
+  .object({
+    type: z.string(),
+    text: z.string().optional(),
+    image_url: z.object({url: z.string()}).optional()
+  })
+  .passthrough();
+
+// OpenAI's request body; tools, response formats and sampling options other than temperature are accepted and ignored
+const ChatCompletionDto = z
+  .object({
+    model: z.string(),
+    messages: z
+      .array(
+        z
+          .object({
+            role: z.enum(['system', 'developer', 'user', 'assistant', 'tool', 'function']),
+            content: z.union([z.string(), z.array(ContentPart)]).nullable().optional()
+          })
+          .passthrough()
+      )
+      .min(1),
+    stream: z.boolean().optional(),
+    temperature: z.number().optional(),
+    max_tokens: z.number().int().positive().optional(),
+    max_completion_tokens: z.number().int().positive().optional(),
+    conversation_id: z.string().optional() // not OpenAI's; continues a conversation with Alice
+  })
+  .passthrough();
+
+type OpenAIMessage = z.infer<typeof ChatCompletionDto>['messages'][number];
+
+// Listed from the moment the server started, since providers don't say when their models were released
+const created = Math.floor(Date.now() / 1000);
+
+const openAIError = (c: Context, status: 400 | 404 | 429 | 500, message: string, code: string, param: string | null = null) =>
+  c.json({error: {message, type: status === 500 ? 'server_error' : 'invalid_request_error', param, code}}, status);
+
+// Calls of client-side tools and their results mean nothing to Alice, and OpenAI's `developer` role is a system message
+const toChatMessages = (messages: OpenAIMessage[]) =>
+  messages
+    .filter(message => message.role !== 'tool' && message.role !== 'function' && Boolean(message.content))
+    .map(message => ({role: message.role === 'developer' ? ('system' as const) : message.role, content: message.content}));
+
+// The token identifies the user, so OpenAI clients don't have to send Alice's `user` object
+const toRequestUser = (user: User) => ({
+  uuid: user.uuid,
+  name: user.name ?? 'User',
+  context: user.context ?? undefined,
+  environment: user.environment ? (typeof user.environment === 'string' ? user.environment : JSON.stringify(user.environment)) : undefined
+});
+
+const passthrough = async (c: Context<AppEnv>, body: z.infer<typeof ChatCompletionDto>) => {
+  const user = c.get('request').user;
+  const [account, monthly] = await Promise.all([findByUUID(user.uuid), usageService.getUserMonthlyTotal(user.uuid)]);
+
+  if (account?.monthlyBudget != null && monthly.cost >= account.monthlyBudget) {
+    return openAIError(c, 429, 'The monthly budget of this account is used up', 'insufficient_quota');
+  }
+
+  const config = {
+    model: body.model,
+    messages: (await Promise.all(toChatMessages(body.messages).map(normalizeMessage))) as CoreMessage[],
+    temperature: body.temperature ?? 0.7,
+    max_tokens: body.max_completion_tokens ?? body.max_tokens,
+    user: {uuid: user.uuid, name: user.name ?? 'User'},
+    usage: {user_uuid: user.uuid, phase: 'passthrough' as const}
+  };
+
+  if (!body.stream) {
+    const result = await completion.text(config, true);
+    return isChatCompletion(result) ? c.json(result) : openAIError(c, 500, 'Unexpected completion format', 'internal_error');
+  }
+
+  const stream = await completion.stream(config);
+  const encoder = new TextEncoder();
+  const finish = generateChunk('', body.model);
+
+  c.header('Content-Type', 'text/event-stream');
+  c.header('Cache-Control', 'no-cache');
+  c.header('Connection', 'keep-alive');
+
+  return c.newResponse(
+    stream.pipeThrough(
+      new TransformStream<string, Uint8Array>({
+        transform(delta, controller) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(generateChunk(delta, body.model))}\n\n`));
+        },
+        flush(controller) {
+          const last_chunk = {...finish, choices: [{...finish.choices[0], delta: {}, finish_reason: 'stop'}]};
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(last_chunk)}\n\n`));
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        }
+      })
+    )
+  );
+};
+
+export default new Hono<AppEnv>()
+  .get('/models', c =>
+    c.json({
+      object: 'list',
+      data: [
+        {id: agent_model, object: 'model', created, owned_by: 'alice'},
+        ...Object.entries(providers).flatMap(([provider, models]) => Object.keys(models).map(id => ({id, object: 'model', created, owned_by: provider})))
+      ]
+    })
+  )
+  .post('/chat/completions', async c => {
+    const parsed = ChatCompletionDto.safeParse(await c.req.json().catch(() => null));
+
+    if (!parsed.success) {
+      const [issue] = parsed.error.issues;
+      return openAIError(c, 400, `Invalid request: ${issue.path.join('.') || 'body'} ${issue.message}`, 'invalid_request', issue.path.join('.') || null);
+    }
+
+    const body = parsed.data;
+    const is_direct = Object.values(providers).some(models => Object.keys(models).includes(body.model));
+
+    if (body.model !== agent_model && !is_direct) {
+      return openAIError(c, 404, `The model '${body.model}' does not exist`, 'model_not_found', 'model');
+    }
+
+    try {
+      if (is_direct) {
+        return await passthrough(c, body);
+      }
+
+      const request = await toChatRequest({
+        conversation_id: body.conversation_id ?? c.get('request').conversation_id,
+        messages: toChatMessages(body.messages),
+        stream: body.stream,
+        temperature: body.temperature,
+        max_tokens: body.max_completion_tokens ?? body.max_tokens,
+        user: toRequestUser(c.get('request').user as User)
+      });
+
+      return await chat(c, {...request, temperature: request.temperature ?? 0.7, max_tokens: request.max_tokens ?? 16384});
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return openAIError(c, 404, error.message, 'not_found');
+      }
+
+      console.error('[OpenAI API] Chat completion failed:', error);
+      return openAIError(c, 500, error instanceof Error ? error.message : 'Chat completion failed', 'internal_error');
+    }
+  });
@@ -0,0 +1,80 @@
+import {Hono} from 'hono';
+import {AppEnv} from '../types/hono';
+import {z} from 'zod';
+import {personaService} from '../services/agent/persona.service';
+import {toErrorResponse} from '../utils/response';
+
+const PersonaDto = z.object({
+  name: z.string().min(1),
+  instructions: z.string().nullable().optional(),
+  tools: z.array(z.string()).nullable().optional(), // null allows every tool
+  model: z.string().nullable().optional(),
+  alt_model: z.string().nullable().optional(),
+  memory_categories: z.array(z.string()).nullable().optional() // null allows every category
+});
+
+const DefaultPersonaDto = z.object({
+  persona_uuid: z.string().uuid().nullable()
+});
+
+export default new Hono<AppEnv>()
+  .get('/', async c => {
+    try {
+      const request = c.get('request');
+      const personas = await personaService.findByUser(request.user.uuid);
+      return c.json({personas, default_persona_uuid: request.user.defaultPersonaUuid ?? null});
+    } catch (error) {
+      return c.json({error: 'Failed to fetch personas'}, 500);
+    }
+  })
+  .get('/:persona_uuid', async c => {
+    const request = c.get('request');
+    const persona = await personaService.findByUuid(c.req.param('persona_uuid'), request.user.uuid);
+
+    if (!persona) {
+      return c.json({error: 'Persona not found'}, 404);
+    }
+
+    return c.json({persona});
+  })
+  .post('/', async c => {
+    try {
+      const request = c.get('request');
+      const persona = await personaService.create(request.user.uuid, PersonaDto.parse(await c.req.json()));
+      return c.json({persona}, 201);
+    } catch (error) {
+      const {body, status} = toErrorResponse(error, 'Failed to create persona');
+      return c.json(body, status);
+    }
+  })
+  .patch('/:persona_uuid', async c => {
+    try {
+      const request = c.get('request');
+      const persona = await personaService.update(c.req.param('persona_uuid'), request.user.uuid, PersonaDto.partial().parse(await c.req.json()));
+      return c.json({persona});
+    } catch (error) {
+      const {body, status} = toErrorResponse(error, 'Failed to update persona');
+      return c.json(body, status);
+    }
+  })
+  .delete('/:persona_uuid', async c => {
+    try {
+      const request = c.get('request');
+      await personaService.delete(c.req.param('persona_uuid'), request.user.uuid);
+      return c.json({success: true});
+    } catch (error) {
+      const {body, status} = toErrorResponse(error, 'Failed to delete persona');
+      return c.json(body, status);
+    }
+  })
+  .put('/default', async c => {
+    try {
+      const request = c.get('request');
+      const {persona_uuid} = DefaultPersonaDto.parse(await c.req.json());
+      await personaService.setDefault(request.user.uuid, persona_uuid);
+      return c.json({default_persona_uuid: persona_uuid});
+    } catch (error) {
+      const {body, status} = toErrorResponse(error, 'Failed to set the default persona');
+      return c.json(body, status);
+    }
+  });
@@ -0,0 +1,76 @@
+import {Hono} from 'hono';
+import {AppEnv} from '../types/hono';
+import {z} from 'zod';
+import {promptService} from '../services/agent/prompt.service';
+import {default_prompts} from '../prompts/registry';
+import {toErrorResponse} from '../utils/response';
+
+const CreateVersionDto = z.object({
+  name: z.string(),
+  template: z.string().min(1),
+  description: z.string().optional()
+});
+
+const TrafficDto = z.object({
+  name: z.string(),
+  allocations: z.array(
+    z.object({
+      version_uuid: z.string().uuid(),
+      traffic: z.number().int().min(0).max(100)
+    })
+  )
+});
+
+const RollbackDto = z.object({
+  name: z.string()
+});
+
+export default new Hono<AppEnv>()
+  .get('/', async c => {
+    try {
+      const versions = await promptService.list(c.req.query('name'));
+      return c.json({prompts: Object.keys(default_prompts), versions});
+    } catch (error) {
+      return c.json({error: 'Failed to fetch prompt versions'}, 500);
+    }
+  })
+  .post('/', async c => {
+    try {
+      const request = c.get('request');
+      const data = CreateVersionDto.parse(await c.req.json());
+      const version = await promptService.create({...data, created_by: request.user.uuid});
+      return c.json({version}, 201);
+    } catch (error) {
+      const {body, status} = toErrorResponse(error, 'Failed to create prompt version');
+      return c.json(body, status);
+    }
+  })
+  .post('/rollback', async c => {
+    try {
+      const {name} = RollbackDto.parse(await c.req.json());
+      const version = await promptService.rollback(name);
+      return c.json({version, serving: version ? `v${version.version}` : 'default'});
+    } catch (error) {
+      const {body, status} = toErrorResponse(error, 'Failed to roll back prompt');
+      return c.json(body, status);
+    }
+  })
+  .put('/traffic', async c => {
+    try {
+      const {name, allocations} = TrafficDto.parse(await c.req.json());
+      await promptService.allocate(name, allocations);
+      return c.json({versions: await promptService.list(name)});
+    } catch (error) {
+      const {body, status} = toErrorResponse(error, 'Failed to update prompt traffic');
+      return c.json(body, status);
+    }
+  })
+  .post('/:version_uuid/activate', async c => {
+    try {
+      const version = await promptService.activate(c.req.param('version_uuid'));
+      return c.json({version});
+    } catch (error) {
+      const {body, status} = toErrorResponse(error, 'Failed to activate prompt version');
+      return c.json(body, status);
+    }
+  });
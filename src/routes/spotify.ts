@@ -2,6 +2,7 @@ import { Hono } from 'hono';
 import { AppEnv } from '../types/hono';
 import { spotifyService } from '../services/tools/spotify.service';
 import { findByUUID } from '../services/common/user.service';
+import { createStateManager } from '../services/agent/state.service';
 import { randomBytes } from 'crypto';
 
 const media = new Hono<AppEnv>()
@@ -19,7 +20,10 @@ const media = new Hono<AppEnv>()
         return c.json({ success: false, error: 'Query parameter is required' }, 400);
       }
 
-      const results = await spotifyService.search(query, ['track', 'playlist', 'album'], 5);
+      const stateManager = createStateManager();
+      stateManager.updateConfig({ user_uuid: user.uuid });
+
+      const results = await spotifyService.search(query, ['track', 'playlist', 'album'], 5, undefined, stateManager);
       return c.json({ success: true, data: results });
     } catch (error) {
       return c.json({
@@ -46,7 +50,11 @@ const media = new Hono<AppEnv>()
         return c.json({ success: false, error: 'Conversation UUID is required' }, 400);
       }
 
-      const result = await spotifyService.playMusic(query, conversation_uuid);
+      const stateManager = createStateManager();
+      stateManager.updateConfig({ user_uuid: user.uuid, conversation_uuid });
+      stateManager.updateProfile({ user_name: user.name });
+
+      const result = await spotifyService.playMusic(query, conversation_uuid, undefined, stateManager);
       return c.json({ success: true, data: result });
     } catch (error) {
       return c.json({
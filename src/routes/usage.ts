@@ -0,0 +1,38 @@
+import {Hono} from 'hono';
+import {AppEnv} from '../types/hono';
+import {z} from 'zod';
+import {usageService} from '../services/common/usage.service';
+import {findByUUID} from '../services/common/user.service';
+
+const UsageQueryDto = z.object({
+  conversation_uuid: z.string().optional(),
+  message_uuid: z.string().optional(),
+  from: z.string().datetime({offset: true}).optional(),
+  to: z.string().datetime({offset: true}).optional()
+});
+
+export default new Hono<AppEnv>().get('/', async c => {
+  try {
+    const request = c.get('request');
+    const {conversation_uuid, message_uuid, from, to} = UsageQueryDto.parse(c.req.query());
+
+    const [report, monthly, user] = await Promise.all([
+      usageService.getReport({user_uuid: request.user.uuid, conversation_uuid, message_uuid, from, to}),
+      usageService.getUserMonthlyTotal(request.user.uuid),
+      findByUUID(request.user.uuid)
+    ]);
+
+    return c.json({
+      ...report,
+      monthly: {
+        ...monthly,
+        budget: user?.monthlyBudget ?? null
+      }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({error: 'Invalid query parameters', details: error.errors}, 400);
+    }
+    return c.json({error: 'Failed to fetch usage'}, 500);
+  }
+});
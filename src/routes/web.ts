@@ -1,6 +1,7 @@
 import { Hono } from 'hono';
 import { AppEnv } from '../types/hono';
 import { webService } from '../services/tools/web.service';
+import { createStateManager } from '../services/agent/state.service';
 
 const web = new Hono<AppEnv>()
   .post('/get-contents', async c => {
@@ -28,10 +29,12 @@ const web = new Hono<AppEnv>()
         return c.json({ success: false, error: 'Query parameter is required' }, 400);
       }
 
-      const result = await webService.execute('search', {
-        query,
-        conversation_uuid: conversation_uuid || 'default'
-      }, c.get('request'));
+      const user = c.get('request').user;
+      const stateManager = createStateManager();
+      stateManager.updateConfig({ user_uuid: user.uuid, conversation_uuid: conversation_uuid || 'default' });
+      stateManager.updateProfile({ user_name: user.name });
+
+      const result = await webService.execute('search', { query }, undefined, stateManager);
 
       return c.json({ success: true, data: result });
     } catch (error) {
@@ -15,10 +15,11 @@ export const actions = sqliteTable('actions', {
     .references(() => tools.uuid),
   name: text('name').notNull(),
   type: text('type').notNull(), // sync / async
+  tool_action: text('tool_action'), // action name passed to the tool's execute()
   payload: text('payload', {mode: 'json'}),
   result: text('result', {mode: 'json'}),
   sequence: integer('sequence'),
-  status: text('status').default('pending'),
+  status: text('status').default('pending'), // 'pending' | 'awaiting_approval' | 'completed' | 'rejected' | 'failed'
   created_at: text('created_at').default(sql`CURRENT_TIMESTAMP`),
   updated_at: text('updated_at').default(sql`CURRENT_TIMESTAMP`)
 });
@@ -0,0 +1,26 @@
+import {sqliteTable, text, integer, index} from 'drizzle-orm/sqlite-core';
+import {sql} from 'drizzle-orm';
+
+export const completionCache = sqliteTable(
+  'completion_cache',
+  {
+    id: integer('id').primaryKey({autoIncrement: true}),
+    key: text('key').notNull().unique(), // sha256 of the kind, model, temperature, messages and call params
+    kind: text('kind').notNull(), // 'text' | 'tool_call' | 'object'
+    model: text('model').notNull(), // requested model
+    phase: text('phase'), // usage phase of the call that stored it
+    output: text('output').notNull(), // JSON
+    size: integer('size').notNull(), // bytes of output
+    hits: integer('hits').notNull().default(0),
+    created_at: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+    last_used_at: text('last_used_at').notNull(), // ISO; the least recently used entries are evicted first
+    expires_at: text('expires_at').notNull() // ISO
+  },
+  table => ({
+    expires_idx: index('completion_cache_expires_idx').on(table.expires_at),
+    last_used_idx: index('completion_cache_last_used_idx').on(table.last_used_at)
+  })
+);
+
+export type CompletionCacheEntry = typeof completionCache.$inferSelect;
+export type NewCompletionCacheEntry = typeof completionCache.$inferInsert;
@@ -1,5 +1,5 @@
 import {sql, relations} from 'drizzle-orm';
-import {text, integer, sqliteTable} from 'drizzle-orm/sqlite-core';
+import {text, integer, sqliteTable, type AnySQLiteColumn} from 'drizzle-orm/sqlite-core';
 import {users} from './user';
 import {messages} from './message';
 import {conversationDocuments} from './conversationDocuments';
@@ -11,6 +11,7 @@ export const conversations = sqliteTable('conversations', {
   user_id: text('user_id').references(() => users.uuid),
   name: text('name'),
   status: text('status').default('active'),
+  parent_uuid: text('parent_uuid').references((): AnySQLiteColumn => conversations.uuid), // set for conversations of delegated runs
   created_at: text('created_at').default(sql`CURRENT_TIMESTAMP`),
   updated_at: text('updated_at').default(sql`CURRENT_TIMESTAMP`)
 });
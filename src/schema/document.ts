@@ -4,8 +4,7 @@ import { conversations } from './conversation';
 import { messageDocuments } from './messageDocuments';
 import { actionDocuments } from './actionDocuments';
 import { taskDocuments } from './taskDocuments';
-import { embedding } from "../services/common/llm.service";
-import { vectorService } from "../services/common/vector.service";
+import { toPointPayload, vectorService } from "../services/common/vector.service";
 import { algoliaService } from '../services/common/algolia.service';
 
 export const documents = sqliteTable('documents', {
@@ -78,17 +77,7 @@ export const documentHooks = {
         : document.metadata;
       
       if (metadata.should_index) {
-        const embeddings = await embedding(document.text);
-        
-        await vectorService.upsertPoint(embeddings, {
-          document_uuid: document.uuid,
-          source_uuid: document.source_uuid,
-          source: 'document',
-          text: document.text,
-          metadata,
-          created_at: document.created_at || new Date().toISOString(),
-          updated_at: document.updated_at || new Date().toISOString()
-        });
+        await vectorService.indexDocument(toPointPayload(document));
 
         await algoliaService.indexDocument({
           ...document,
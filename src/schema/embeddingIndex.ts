@@ -0,0 +1,20 @@
+import {sqliteTable, text, integer} from 'drizzle-orm/sqlite-core';
+import {sql} from 'drizzle-orm';
+
+export const embeddingIndexes = sqliteTable('embedding_indexes', {
+  id: integer('id').primaryKey({autoIncrement: true}),
+  uuid: text('uuid', {length: 36}).notNull().unique(),
+  model: text('model').notNull(), // key of embedding_models in llm.config
+  dimensions: integer('dimensions').notNull(),
+  collection: text('collection').notNull(), // Qdrant collection
+  status: text('status').notNull().default('building'), // 'building' | 'active' | 'retired' | 'failed'; one active at a time
+  total: integer('total').notNull().default(0), // indexed documents to embed
+  embedded: integer('embedded').notNull().default(0),
+  error: text('error'),
+  created_at: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  finished_at: text('finished_at'),
+  activated_at: text('activated_at')
+});
+
+export type EmbeddingIndex = typeof embeddingIndexes.$inferSelect;
+export type NewEmbeddingIndex = typeof embeddingIndexes.$inferInsert;
@@ -12,4 +12,9 @@ export * from './conversationDocuments';
 export * from './category';
 export * from './conversationMemories';
 export * from './taskDocuments';
-export * from './jobs';
\ No newline at end of file
+export * from './jobs';
+export * from './usage';
+export * from './persona';
+export * from './promptVersion';
+export * from './completionCache';
+export * from './embeddingIndex';
@@ -11,11 +11,12 @@ export const jobs = sqliteTable('jobs', {
   name: text('name').notNull(),
   type: text('type').notNull(), // 'cron' | 'scheduled' | 'recurring'
   schedule: text('schedule').notNull(), // cron expression or ISO date
+  timezone: text('timezone').notNull().default('Europe/Warsaw'), // cron expressions and dates without an offset are read in it
   status: text('status')
     .notNull()
     .default('pending'), // 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'
   last_run: text('last_run'),
-  next_run: text('next_run'),
+  next_run: text('next_run'), // UTC ISO instant
   result: text('result', { mode: 'json' }),
   metadata: text('metadata', { mode: 'json' }),
   created_at: text('created_at').default(sql`CURRENT_TIMESTAMP`),
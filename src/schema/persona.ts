@@ -0,0 +1,29 @@
+import {sqliteTable, text, integer} from 'drizzle-orm/sqlite-core';
+import {sql, relations} from 'drizzle-orm';
+import {users} from './user';
+
+export const personas = sqliteTable('personas', {
+  id: integer('id').primaryKey({autoIncrement: true}),
+  uuid: text('uuid', {length: 36}).notNull().unique(),
+  user_uuid: text('user_uuid')
+    .notNull()
+    .references(() => users.uuid),
+  name: text('name').notNull(), // name the assistant introduces itself with
+  instructions: text('instructions'), // added to the planning and answer prompts
+  tools: text('tools', {mode: 'json'}).$type<string[]>(), // tool names the persona may use, null for all
+  model: text('model'), // used when the chat request doesn't pick a model
+  alt_model: text('alt_model'),
+  memory_categories: text('memory_categories', {mode: 'json'}).$type<string[]>(), // memory category names, null for all
+  created_at: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updated_at: text('updated_at').default(sql`CURRENT_TIMESTAMP`)
+});
+
+export const personasRelations = relations(personas, ({one}) => ({
+  user: one(users, {
+    fields: [personas.user_uuid],
+    references: [users.uuid]
+  })
+}));
+
+export type Persona = typeof personas.$inferSelect;
+export type NewPersona = typeof personas.$inferInsert;
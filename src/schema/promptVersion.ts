@@ -0,0 +1,25 @@
+import {sqliteTable, text, integer, uniqueIndex} from 'drizzle-orm/sqlite-core';
+import {sql} from 'drizzle-orm';
+
+export const promptVersions = sqliteTable(
+  'prompt_versions',
+  {
+    id: integer('id').primaryKey({autoIncrement: true}),
+    uuid: text('uuid', {length: 36}).notNull().unique(),
+    name: text('name').notNull(), // registry name, e.g. 'agent/task'
+    version: integer('version').notNull(), // 1, 2, ... per name; the code default is version 0
+    template: text('template').notNull(), // {{path}} placeholders read the prompt's arguments, {{default}} inserts the code default
+    description: text('description'),
+    traffic: integer('traffic').notNull().default(0), // percentage of conversations served, the rest gets the code default
+    activated_at: text('activated_at'), // last time it was given traffic; rollback goes back to the one activated before
+    created_by: text('created_by'), // user_uuid
+    created_at: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+    updated_at: text('updated_at').default(sql`CURRENT_TIMESTAMP`)
+  },
+  table => ({
+    name_version_idx: uniqueIndex('prompt_versions_name_version_idx').on(table.name, table.version)
+  })
+);
+
+export type PromptVersion = typeof promptVersions.$inferSelect;
+export type NewPromptVersion = typeof promptVersions.$inferInsert;
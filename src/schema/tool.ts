@@ -9,6 +9,9 @@ export const tools = sqliteTable('tools', {
   name: text('name').notNull(),
   description: text('description'),
   instruction: text('instruction'),
+  approval_actions: text('approval_actions', { mode: 'json' }).$type<string[]>(), // actions that wait for user approval, '*' for all
+  max_attempts: integer('max_attempts').default(1), // executions before an action is marked as failed; above 1 only for idempotent tools
+  retry_backoff_ms: integer('retry_backoff_ms').default(1000), // delay before the first retry, doubled after each attempt
   created_at: text('created_at').default(sql`CURRENT_TIMESTAMP`),
   updated_at: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
 });
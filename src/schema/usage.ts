@@ -0,0 +1,47 @@
+import {sqliteTable, text, integer, real, index} from 'drizzle-orm/sqlite-core';
+import {sql, relations} from 'drizzle-orm';
+import {users} from './user';
+import {conversations} from './conversation';
+import {messages} from './message';
+
+export const usage = sqliteTable(
+  'usage',
+  {
+    id: integer('id').primaryKey({autoIncrement: true}),
+    uuid: text('uuid').notNull().unique(),
+    user_uuid: text('user_uuid')
+      .notNull()
+      .references(() => users.uuid),
+    conversation_uuid: text('conversation_uuid').references(() => conversations.uuid),
+    message_uuid: text('message_uuid').references(() => messages.uuid), // user message that started the turn
+    phase: text('phase').notNull(), // 'fast_track' | 'observe' | 'draft' | 'plan' | 'next' | 'use' | 'call' | 'act' | 'compact' | 'answer' | 'passthrough' (a model called directly through /v1)
+    model: text('model').notNull(),
+    prompt_tokens: integer('prompt_tokens').notNull().default(0),
+    completion_tokens: integer('completion_tokens').notNull().default(0),
+    total_tokens: integer('total_tokens').notNull().default(0),
+    cost: real('cost').notNull().default(0), // USD
+    created_at: text('created_at').default(sql`CURRENT_TIMESTAMP`)
+  },
+  table => ({
+    user_created_idx: index('usage_user_created_idx').on(table.user_uuid, table.created_at),
+    conversation_idx: index('usage_conversation_idx').on(table.conversation_uuid)
+  })
+);
+
+export const usageRelations = relations(usage, ({one}) => ({
+  user: one(users, {
+    fields: [usage.user_uuid],
+    references: [users.uuid]
+  }),
+  conversation: one(conversations, {
+    fields: [usage.conversation_uuid],
+    references: [conversations.uuid]
+  }),
+  message: one(messages, {
+    fields: [usage.message_uuid],
+    references: [messages.uuid]
+  })
+}));
+
+export type Usage = typeof usage.$inferSelect;
+export type NewUsage = typeof usage.$inferInsert;
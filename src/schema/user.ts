@@ -1,6 +1,7 @@
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real } from 'drizzle-orm/sqlite-core';
 import { sql, relations } from 'drizzle-orm';
 import { conversations } from './conversation';
+import { personas } from './persona';
 
 export const users = sqliteTable('users', {
   id: integer('id', { mode: 'number' }).primaryKey({ autoIncrement: true }),
@@ -9,6 +10,7 @@ export const users = sqliteTable('users', {
   email: text('email').unique(),
   token: text('token').unique(),
   active: integer('active', { mode: 'boolean' }).notNull().default(true),
+  admin: integer('admin', { mode: 'boolean' }).notNull().default(false), // may manage prompt versions
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`CURRENT_TIMESTAMP`),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql`CURRENT_TIMESTAMP`),
   context: text('context'),
@@ -19,10 +21,15 @@ export const users = sqliteTable('users', {
   spotifyAccessToken: text('spotify_access_token'),
   spotifyRefreshToken: text('spotify_refresh_token'),
   spotifyTokenExpiry: integer('spotify_token_expiry', { mode: 'timestamp' }),
+  monthlyBudget: real('monthly_budget'), // USD the user may spend on completions per calendar month, null for unlimited
+  defaultPersonaUuid: text('default_persona_uuid'), // persona used when a chat request doesn't pick one
+  timezone: text('timezone'), // IANA name, e.g. 'Europe/Warsaw'; `environment.timezone` overrides it
+  locale: text('locale'), // BCP 47 tag, e.g. 'pl-PL'; `environment.locale` overrides it
 });
 
 export const usersRelations = relations(users, ({ many }) => ({
-  conversations: many(conversations)
+  conversations: many(conversations),
+  personas: many(personas)
 }));
 
 export type User = typeof users.$inferSelect;
@@ -1,8 +1,8 @@
 import db from '../../database/db';
 import {actions} from '../../schema/action';
-import {eq} from 'drizzle-orm';
+import {and, eq} from 'drizzle-orm';
 import {z} from 'zod';
-import {documentService} from './document.service';
+import {documentService, type DocumentType} from './document.service';
 import {actionDocuments} from '../../schema/actionDocuments';
 import {Action} from '../../types/agent';
 
@@ -12,11 +12,18 @@ const actionSchema = z.object({
   tool_uuid: z.string(),
   name: z.string(),
   sequence: z.number(),
-  status: z.enum(['pending', 'completed', 'failed']),
+  status: z.enum(['pending', 'awaiting_approval', 'completed', 'rejected', 'failed']),
   payload: z.record(z.unknown()).nullable()
 });
 
 export const actionService = {
+  findByUuid: async (uuid: string) => {
+    return db.query.actions.findFirst({
+      where: eq(actions.uuid, uuid),
+      with: {task: true}
+    });
+  },
+
   createAction: async (action: Action) => {
     const validated_action = actionSchema.parse(action);
 
@@ -51,6 +58,43 @@ export const actionService = {
     return updated_action;
   },
 
+  // Moves an action out of awaiting_approval only if it's still there, so concurrent approvals and rejections can't both win
+  resolveAwaiting: async (uuid: string, status: 'pending' | 'rejected') => {
+    const [resolved_action] = await db
+      .update(actions)
+      .set({status, updated_at: new Date().toISOString()})
+      .where(and(eq(actions.uuid, uuid), eq(actions.status, 'awaiting_approval')))
+      .returning();
+
+    return resolved_action;
+  },
+
+  markActionFailed: async (uuid: string, error_document: DocumentType): Promise<Action> => {
+    return db.transaction(async tx => {
+      const [action] = await tx
+        .update(actions)
+        .set({
+          status: 'failed',
+          result: error_document.text,
+          updated_at: new Date().toISOString()
+        })
+        .where(eq(actions.uuid, uuid))
+        .returning();
+
+      if (!action) throw new Error('Action not found');
+
+      await tx.insert(actionDocuments).values({
+        action_uuid: action.uuid,
+        document_uuid: error_document.uuid
+      });
+
+      return {
+        ...action,
+        documents: [error_document]
+      } as Action;
+    });
+  },
+
   updateActionWithResult: async (uuid: string, result: unknown): Promise<Action> => {
     const updated_data = await db.transaction(async tx => {
       // Standardize how text is extracted from various result shapes
@@ -1,5 +1,5 @@
 import {ChatRequest} from '../../dto/chat.dto';
-import {stateManager} from '../../services/agent/state.service';
+import type {StateManager} from '../../services/agent/state.service';
 import {conversationService} from '../../services/agent/conversation.service';
 import {messageService} from '../../services/agent/message.service';
 import {v4 as uuidv4} from 'uuid';
@@ -11,32 +11,232 @@ import {memoryService} from './memory.service';
 import {actionService} from './action.service';
 import {Document} from '../../types/document';
 import {taskService} from './task.service';
+import {registeredTools} from './tool.registration.service';
+import {trackUsage, usageService} from '../common/usage.service';
+import {compactionService} from './compaction.service';
+import {findByUUID} from '../common/user.service';
+import type {State} from '../../types/state';
+import type {Task} from '../../types/agent';
+import {createHash} from 'crypto';
+import {loop_detection, type LoopResponse} from '../../config/loop.config';
+import {default_model, providers} from '../../config/llm.config';
+import {personaService} from './persona.service';
+import type {Persona} from '../../schema';
+import {formatLocalTime, resolveTimeSettings} from '../../utils/time';
+import {ConflictError} from '../../utils/errors';
 
-export const shouldContinueThinking = (): boolean => {
+// Conversations whose agent loop is running in this process, with how many runs each has, so they're never reported or
+// resumed as interrupted. Claims are synchronous: a caller checks and claims with no await in between
+const running_conversations = new Map<string, number>();
+
+export const activeRuns = {
+  has: (conversation_uuid: string) => running_conversations.has(conversation_uuid),
+
+  // Chat runs may overlap, so each one counts and the conversation stays active until the last of them releases
+  claim: (conversation_uuid: string) => {
+    running_conversations.set(conversation_uuid, (running_conversations.get(conversation_uuid) ?? 0) + 1);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+
+      const count = (running_conversations.get(conversation_uuid) ?? 1) - 1;
+      if (count > 0) {
+        running_conversations.set(conversation_uuid, count);
+      } else {
+        running_conversations.delete(conversation_uuid);
+      }
+    };
+  },
+
+  // Resuming and deciding on an action continue a paused run, which can't share the conversation with another one
+  claimExclusive: (conversation_uuid: string) => {
+    if (running_conversations.has(conversation_uuid)) {
+      throw new ConflictError('The conversation has a run in progress', {context: {conversation_uuid}});
+    }
+
+    return activeRuns.claim(conversation_uuid);
+  }
+};
+
+export const isOverBudget = ({config}: State): boolean => {
+  const {usage, budget} = config;
+
+  return (budget.tokens !== null && usage.tokens >= budget.tokens) || (budget.cost !== null && usage.cost >= budget.cost);
+};
+
+export const shouldContinueThinking = (stateManager: StateManager): boolean => {
   const state = stateManager.getState();
   const {step, max_steps, current_tool} = state.config;
   const is_final_answer = current_tool?.name === 'final_answer';
 
-  return step < max_steps && !is_final_answer;
+  return step < max_steps && !is_final_answer && !isOverBudget(state);
 };
 
-export const setInteractionState = async (request: ChatRequest) => {
-  // Create conversation if not provided
-  const conversation_id = await conversationService.getOrCreate(request.conversation_id || uuidv4(), request.user.uuid);
+export const requiresApproval = (stateManager: StateManager, action: string): boolean => {
+  const {config, session} = stateManager.getState();
+  const tool = session.tools.find(tool => tool.uuid === config.current_tool?.uuid);
+  const approval_actions = tool?.approval_actions ?? [];
 
-  // Load categories, memories, and tasks.
-  // Tools are now globally initialized by toolRegistrationService and should not be overwritten here.
-  const [categories, memories, tasks] = await Promise.all([
-    categoryService.findAll(),
-    memoryService.findByConversationId(conversation_id),
-    taskService.findByConversationId(conversation_id),
-  ]);
+  return approval_actions.includes('*') || approval_actions.includes(action);
+};
 
-  // Update interaction state with messages and tasks
-  stateManager.updateInteraction({
-    messages: request.messages as Message[],
-    tasks: tasks || []
+// Pending tasks whose dependencies are all completed; the final task waits until no other task is left
+export const findReadyTasks = ({interaction}: State): Task[] => {
+  const completed = new Set(interaction.tasks.filter(task => task.status === 'completed').map(task => task.uuid));
+  const known = new Set(interaction.tasks.map(task => task.uuid));
+  const pending = interaction.tasks.filter(task => task.status === 'pending');
+
+  const ready = pending.filter(
+    task => task.type !== 'final' && (task.depends_on ?? []).every(uuid => completed.has(uuid) || !known.has(uuid))
+  );
+
+  return ready.length > 0 ? ready : pending.filter(task => task.type === 'final').slice(0, 1);
+};
+
+export interface LoopIteration {
+  actions: string[]; // "tool action payload-hash" of every action the step ran
+  progressed: boolean; // whether any task changed its status during the step
+}
+
+export interface LoopDetection {
+  kind: keyof typeof loop_detection;
+  response: LoopResponse;
+  note: string;
+  actions: string[];
+}
+
+export const taskStatuses = ({interaction}: State) => JSON.stringify(interaction.tasks.map(({uuid, status}) => [uuid, status]));
+
+// Payloads are hashed without the conversation, which ai.service adds to every one of them
+const actionSignature = (state: State, action: Task['actions'][number]) => {
+  const tool = state.session.tools.find(tool => tool.uuid === action.tool_uuid)?.name ?? 'unknown';
+  const {conversation_uuid, ...payload} = (typeof action.payload === 'string' ? JSON.parse(action.payload) : action.payload) ?? {};
+  const hash = createHash('sha1').update(JSON.stringify(payload)).digest('hex').slice(0, 12);
+
+  return `${tool} ${action.tool_action ?? 'unknown'} ${hash}`;
+};
+
+export const describeIteration = (state: State, statuses_before: string): LoopIteration => ({
+  actions: state.interaction.tasks
+    .flatMap(task => task.actions)
+    .filter(action => action.sequence === state.config.step)
+    .map(action => actionSignature(state, action))
+    .sort(),
+  progressed: taskStatuses(state) !== statuses_before
+});
+
+const describeActions = (actions: string[]) => actions.map(action => action.split(' ').slice(0, 2).join(' ')).join(', ');
+
+// Checks the most recent steps of the loop; oscillation goes first, since its rounds would also look like a stall
+export const detectLoop = (iterations: LoopIteration[]): LoopDetection | null => {
+  const {repeat, stall, oscillation} = loop_detection;
+  const signatures = iterations.map(iteration => iteration.actions.join(' | '));
+
+  const rounds = signatures.slice(-oscillation.cycles * 2);
+  const [first, second] = rounds;
+  if (
+    rounds.length === oscillation.cycles * 2 &&
+    first &&
+    second &&
+    first !== second &&
+    rounds.every((signature, index) => signature === (index % 2 === 0 ? first : second))
+  ) {
+    return {
+      kind: 'oscillation',
+      response: oscillation.response,
+      actions: [first, second],
+      note: `The last ${rounds.length} steps went back and forth between "${describeActions(iterations.at(-2)!.actions)}" and "${describeActions(iterations.at(-1)!.actions)}" without getting anywhere. Stop alternating: use the results you already have, or choose a different approach.`
+    };
+  }
+
+  const recent = iterations.slice(-repeat.steps);
+  const repeated = recent.length === repeat.steps ? recent[0].actions.filter(action => recent.every(iteration => iteration.actions.includes(action))) : [];
+  if (repeated.length > 0) {
+    return {
+      kind: 'repeat',
+      response: repeat.response,
+      actions: repeated,
+      note: `"${describeActions(repeated)}" ran with an identical payload in each of the last ${repeat.steps} steps. Don't plan it again; its result won't change. Use the result it already returned, change the payload, or move on to the final answer.`
+    };
+  }
+
+  const stalled = iterations.slice(-stall.steps);
+  if (stalled.length === stall.steps && stalled.every(iteration => !iteration.progressed)) {
+    return {
+      kind: 'stall',
+      response: stall.response,
+      actions: stalled.flatMap(iteration => iteration.actions),
+      note: `No task changed its status in the last ${stall.steps} steps. Check what the completed actions already returned, mark the tasks they answer as completed, and drop or rephrase the ones that can't be done with the available tools.`
+    };
+  }
+
+  return null;
+};
+
+// Folds what parallel branches did back into the run, in the order the branches were started,
+// so the merged state doesn't depend on which branch happened to finish first
+export const mergeBranches = (stateManager: StateManager, branches: StateManager[]) => {
+  const base = stateManager.getState();
+  const base_actions = new Map(base.interaction.tasks.flatMap(task => task.actions).map(action => [action.uuid, JSON.stringify(action)]));
+  const branch_states = branches.map(branch => branch.getState());
+
+  const tasks = branch_states.reduce(
+    (tasks, branch) =>
+      tasks.map(task => {
+        const base_task = base.interaction.tasks.find(({uuid}) => uuid === task.uuid);
+        const branch_task = branch.interaction.tasks.find(({uuid}) => uuid === task.uuid);
+        if (!branch_task) return task;
+
+        const changed_actions = branch_task.actions.filter(action => base_actions.get(action.uuid) !== JSON.stringify(action));
+        const actions = [
+          ...task.actions.map(action => changed_actions.find(({uuid}) => uuid === action.uuid) ?? action),
+          ...changed_actions.filter(action => !task.actions.some(({uuid}) => uuid === action.uuid))
+        ];
+
+        return {...task, actions, status: branch_task.status !== base_task?.status ? branch_task.status : task.status};
+      }),
+    base.interaction.tasks
+  );
+
+  const tool_context = [
+    ...base.interaction.tool_context,
+    ...branch_states.flatMap(branch => branch.interaction.tool_context.slice(base.interaction.tool_context.length))
+  ];
+
+  const usage = branch_states.reduce(
+    (usage, branch) => ({
+      tokens: usage.tokens + branch.config.usage.tokens - base.config.usage.tokens,
+      cost: usage.cost + branch.config.usage.cost - base.config.usage.cost
+    }),
+    base.config.usage
+  );
+
+  // A branch waiting for approval decides where the run stops, then one that picked the final answer
+  const leading =
+    branch_states.find(branch => branch.config.current_phase === 'awaiting_approval') ??
+    branch_states.find(branch => branch.config.current_tool?.name === 'final_answer') ??
+    branch_states.at(-1);
+
+  stateManager.updateInteraction({tasks, tool_context});
+  stateManager.updateConfig({
+    usage,
+    ...(leading && {
+      current_phase: leading.config.current_phase,
+      current_task: leading.config.current_task,
+      current_action: leading.config.current_action,
+      current_tool: leading.config.current_tool
+    })
   });
+};
+
+export const setInteractionState = async (stateManager: StateManager, request: ChatRequest) => {
+  // An unknown or foreign persona is refused before anything is stored, so no conversation is left on an unanswered message
+  const persona = await personaService.resolve(request.user.uuid, request.persona_uuid);
+
+  // Create conversation if not provided
+  const conversation_id = await conversationService.getOrCreate(request.conversation_id || uuidv4(), request.user.uuid);
 
   // Save the last user message
   const lastMessage = request.messages[request.messages.length - 1];
@@ -48,23 +248,55 @@ export const setInteractionState = async (request: ChatRequest) => {
     });
   }
 
-  // Update session state with loaded data
-  // CRITICAL: Retrieve the current tools from state (initialized at startup)
-  // rather than overwriting with a limited DB-fetched list.
-  const existingTools = stateManager.getState().session.tools;
+  await loadInteractionState(stateManager, conversation_id, request, persona);
+
+  return conversation_id;
+};
+
+// A persona the caller already resolved is reused; otherwise it's resolved from the request
+export const loadInteractionState = async (stateManager: StateManager, conversation_id: string, request: ChatRequest, resolved_persona?: Persona | null) => {
+  // Load categories, memories, and tasks.
+  // Tools are globally initialized by toolRegistrationService and copied into this request's state below.
+  const [categories, memories, tasks, last_user_message, user, monthly_usage, persona] = await Promise.all([
+    categoryService.findAll(),
+    memoryService.findByConversationId(conversation_id),
+    taskService.findByConversationId(conversation_id),
+    messageService.findLastUserMessage(conversation_id),
+    findByUUID(request.user.uuid),
+    usageService.getUserMonthlyTotal(request.user.uuid),
+    resolved_persona !== undefined ? resolved_persona : personaService.resolve(request.user.uuid, request.persona_uuid)
+  ]);
+
+  // A model picked by the request wins over the persona's default
+  const model = request.model ?? persona?.model ?? default_model;
+
+  const environment = JSON.parse(request.user.environment || '{}');
+  const {timezone, locale} = resolveTimeSettings(environment, user);
 
+  // The run may spend the smaller of the request's own limit and what's left of the user's monthly budget
+  const remaining_monthly_budget = user?.monthlyBudget != null ? Math.max(0, user.monthlyBudget - monthly_usage.cost) : null;
+  const cost_limits = [request.budget?.cost, remaining_monthly_budget].filter((limit): limit is number => limit != null);
+
+  // Update session state with loaded data
+  // CRITICAL: Use the tools registered at startup (native + MCP)
+  // rather than a limited DB-fetched list.
+  // The persona's allowlists narrow what every phase of the loop sees; final_answer is always available to end it
   stateManager.updateSession({
-    tools: existingTools, // Use the globally initialized tools
-    categories: categories.map(({name, subcategory, description}) => ({
-      category: name,
-      subcategory: subcategory || '',
-      description: description || ''
-    })),
-    memories: memories.map(mem => ({
-      ...mem,
-      created_at: mem.created_at || new Date().toISOString(),
-      updated_at: mem.updated_at || new Date().toISOString(),
-    }))
+    tools: registeredTools.filter(tool => !persona?.tools || tool.name === 'final_answer' || persona.tools.includes(tool.name)),
+    categories: categories
+      .filter(({name}) => !persona?.memory_categories || persona.memory_categories.includes(name))
+      .map(({name, subcategory, description}) => ({
+        category: name,
+        subcategory: subcategory || '',
+        description: description || ''
+      })),
+    memories: memories
+      .filter(mem => !persona?.memory_categories || persona.memory_categories.includes(categories.find(category => category.uuid === mem.category_uuid)?.name ?? ''))
+      .map(mem => ({
+        ...mem,
+        created_at: mem.created_at || new Date().toISOString(),
+        updated_at: mem.updated_at || new Date().toISOString(),
+      }))
   });
 
   stateManager.updateConfig({
@@ -75,33 +307,163 @@ export const setInteractionState = async (request: ChatRequest) => {
     current_tool: null,
     user_uuid: request.user.uuid,
     conversation_uuid: conversation_id,
-    model: request.model,
+    message_uuid: last_user_message?.uuid ?? null,
+    usage: {tokens: 0, cost: 0},
+    tool_mode: request.tool_mode ?? Object.values(providers).find(models => models[model])?.[model]?.tool_mode ?? 'prompt',
+    loop_warning: null,
+    budget: {
+      tokens: request.budget?.tokens ?? null,
+      cost: cost_limits.length > 0 ? Math.min(...cost_limits) : null
+    },
+    model,
+    ...(persona?.alt_model && {alt_model: persona.alt_model}),
     temperature: request.temperature || 0.7,
     max_tokens: request.max_tokens || 16384,
-    time: new Date()
-      .toLocaleString('en-GB', {
-        timeZone: 'Europe/Warsaw',
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit',
-        hour: '2-digit',
-        minute: '2-digit',
-        hour12: false
-      })
-      .replace(/(\d+)\/(\d+)\/(\d+), (\d+):(\d+)/, '$3-$2-$1 $4:$5')
+    timezone,
+    locale,
+    time: formatLocalTime(new Date(), timezone)
   });
 
   stateManager.updateProfile({
-    ai_name: 'Alice',
+    ai_name: persona?.name ?? 'Alice',
     user_name: request.user.name,
+    persona_uuid: persona?.uuid ?? null,
+    instructions: persona?.instructions ?? null,
+    memory_categories: persona?.memory_categories ?? null,
     context: request.user.context,
-    environment: JSON.parse(request.user.environment || '{}')
+    environment
   });
 
-  return conversation_id;
+  // Long conversations keep their latest turns and a summary of everything before them. The summary is billed to the
+  // run like any other completion, and skipped once the budget is used up; prompts are still cut to the model's window
+  const messages = isOverBudget(stateManager.getState())
+    ? request.messages
+    : await compactionService.compact({
+        conversation_uuid: conversation_id,
+        messages: request.messages,
+        model,
+        max_tokens: request.max_tokens,
+        user: request.user,
+        usage: trackUsage(stateManager, 'compact')
+      });
+
+  // Update interaction state with messages and tasks
+  stateManager.updateInteraction({
+    messages: messages as Message[],
+    tasks: tasks || []
+  });
+};
+
+export const restoreAwaitingAction = async (stateManager: StateManager, action_uuid: string, request: ChatRequest, decision: 'approve' | 'reject') => {
+  const action = await actionService.findByUuid(action_uuid);
+  if (!action || action.status !== 'awaiting_approval') {
+    return null;
+  }
+
+  const conversation = await conversationService.findByUuid(action.task.conversation_uuid);
+  if (!conversation || conversation.user_id !== request.user.uuid) {
+    return null;
+  }
+
+  // The caller releases the conversation once the resumed run settles
+  const release = activeRuns.claimExclusive(conversation.uuid);
+
+  try {
+    // Claimed before any state is loaded, since loading may take a compaction call; a concurrent approval or rejection
+    // of the same action finds it already resolved and the tool runs at most once
+    const claimed = await actionService.resolveAwaiting(action.uuid, decision === 'approve' ? 'pending' : 'rejected');
+    if (!claimed) {
+      throw new ConflictError('The action was already approved or rejected', {context: {action_uuid}});
+    }
+
+    // Resume from the user message that started the paused run, not the answer that announced the pause
+    const messages = await messageService.findByConversationId(conversation.uuid);
+    const last_user_message = messages.findLastIndex(message => message.role === 'user');
+
+    try {
+      await loadInteractionState(stateManager, conversation.uuid, {...request, messages: messages.slice(0, last_user_message + 1)});
+    } catch (error) {
+      // Nothing ran yet, so the user can decide again
+      await actionService.updateAction(action.uuid, {status: 'awaiting_approval'});
+      throw error;
+    }
+  } catch (error) {
+    release();
+    throw error;
+  }
+
+  const tool = stateManager.getState().session.tools.find(tool => tool.uuid === action.tool_uuid);
+
+  stateManager.updateConfig({
+    step: action.sequence ?? 1,
+    current_phase: 'awaiting_approval',
+    current_task: {uuid: action.task.uuid, name: action.task.name},
+    current_action: {uuid: action.uuid, name: action.name},
+    current_tool: tool ? {uuid: tool.uuid, name: tool.name} : null
+  });
+
+  return {conversation_id: conversation.uuid, release};
+};
+
+export const findInterruptedRuns = async (user_uuid: string) => {
+  const pending_tasks = await taskService.findPendingByUserId(user_uuid);
+  const conversation_uuids = [...new Set(pending_tasks.map(task => task.conversation_uuid))].filter(uuid => !activeRuns.has(uuid));
+
+  const runs = await Promise.all(
+    conversation_uuids.map(async conversation_uuid => {
+      const messages = await messageService.findByConversationId(conversation_uuid);
+      const last_message = messages.at(-1);
+
+      // A run that got to its answer isn't interrupted, even if the planner left some tasks pending
+      if (last_message?.role !== 'user') {
+        return null;
+      }
+
+      const tasks = pending_tasks.filter(task => task.conversation_uuid === conversation_uuid);
+
+      return {
+        conversation_uuid,
+        conversation_name: tasks[0].conversation_name,
+        last_message: last_message.content,
+        pending_tasks: tasks.map(({uuid, name, description}) => ({uuid, name, description})),
+        updated_at: tasks.reduce((latest, task) => (task.updated_at > latest ? task.updated_at : latest), tasks[0].updated_at)
+      };
+    })
+  );
+
+  return runs.filter(run => run !== null);
+};
+
+// The caller claims the conversation first, so a second resume is refused before anything is loaded
+export const restoreInterruptedRun = async (stateManager: StateManager, conversation_uuid: string, request: ChatRequest) => {
+  const conversation = await conversationService.findByUuid(conversation_uuid);
+  if (!conversation || conversation.user_id !== request.user.uuid) {
+    return null;
+  }
+
+  const messages = await messageService.findByConversationId(conversation.uuid);
+  if (messages.at(-1)?.role !== 'user') {
+    return null;
+  }
+
+  await loadInteractionState(stateManager, conversation.uuid, {...request, messages});
+
+  // Pick up the loop right after the last step the interrupted run recorded
+  const run_actions = stateManager
+    .getState()
+    .interaction.tasks.filter(task => task.status === 'pending')
+    .flatMap(task => task.actions);
+  const last_step = Math.max(0, ...run_actions.map(action => action.sequence ?? 0));
+
+  stateManager.updateConfig({
+    step: last_step + 1,
+    current_phase: 'resuming'
+  });
+
+  return conversation.uuid;
 };
 
-export const setAssistantResponse = async ({conversation_id, response, source = 'assistant'}: SetAssistantResponseParams): Promise<void> => {
+export const setAssistantResponse = async ({conversation_id, response, source = 'assistant', stateManager}: SetAssistantResponseParams): Promise<void> => {
   if (!conversation_id) {
     throw new Error('Conversation ID is required');
   }
@@ -141,9 +503,10 @@ interface UpdateActionStateParams {
   action_uuid: string;
   result: unknown;
   documents?: Document[];
+  stateManager: StateManager;
 }
 
-export const updateActionState = async ({action_uuid, result}: {action_uuid: string; result: unknown}) => {
+export const updateActionState = async ({action_uuid, result, stateManager}: UpdateActionStateParams) => {
   // 1. Update the action with result and get formatted result back
   const updated_action = await actionService.updateActionWithResult(action_uuid, result);
   
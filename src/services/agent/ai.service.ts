@@ -1,50 +1,185 @@
 import {completion} from '../common/llm.service';
-import {stateManager} from './state.service';
-import {prompt as environmentPrompt} from '../../prompts/agent/environment';
-import {prompt as generalContextPrompt} from '../../prompts/agent/context';
-import {prompt as toolsPrompt} from '../../prompts/agent/tools';
-import {prompt as memoryPrompt} from '../../prompts/agent/memory';
-import {prompt as taskPrompt} from '../../prompts/agent/task';
-import {prompt as actionPrompt} from '../../prompts/agent/action';
-import {prompt as usePrompt} from '../../prompts/agent/use';
+import {forkStateManager, type StateManager} from './state.service';
+import {schema as environmentSchema} from '../../prompts/agent/environment';
+import {schema as generalContextSchema} from '../../prompts/agent/context';
+import {schema as toolsSchema} from '../../prompts/agent/tools';
+import {schema as memorySchema} from '../../prompts/agent/memory';
+import {schema as taskSchema} from '../../prompts/agent/task';
+import {schema as actionSchema} from '../../prompts/agent/action';
+import {schema as useSchema} from '../../prompts/agent/use';
+import {promptService} from './prompt.service';
 import {CoreMessage} from 'ai';
-import {shouldContinueThinking, updateActionState} from './agi.service';
+import {
+  describeIteration,
+  detectLoop,
+  findReadyTasks,
+  isOverBudget,
+  mergeBranches,
+  requiresApproval,
+  shouldContinueThinking,
+  taskStatuses,
+  updateActionState,
+  type LoopDetection,
+  type LoopIteration
+} from './agi.service';
+import {trackUsage} from '../common/usage.service';
 import {taskService} from './task.service';
 import {actionService} from './action.service';
 
-import type {Action, AgentThoughts, Task, ToolUsePayload, ToolUseResponse} from '../../types/agent';
+import type {Action, AgentThoughts, Task, Tool, ToolUsePayload, ToolUseResponse} from '../../types/agent';
 import {LangfuseSpanClient, LangfuseTraceClient} from 'langfuse';
-import {prompt as fastTrackPrompt} from '../../prompts/agent/fast';
-import { linearService } from '../tools/linear.service';
-import { calendarService } from './calendar.service';
+import {schema as fastTrackSchema} from '../../prompts/agent/fast';
 import { activeToolsMap } from './tool.registration.service';
-import { memoryService } from './memory.service';
+import { toolContextService } from './tool.context.service';
+import { toolFunctionService } from './tool.function.service';
+import { documentService } from './document.service';
+import { ToolExecutionError } from '../../utils/errors';
+
+const announcePhase = (stateManager: StateManager, phase: string) => {
+  stateManager.emitProgress({type: 'phase', phase, step: stateManager.getState().config.step});
+};
+
+// Short, human-readable excerpt of a tool result for progress events
+const summarize = (result: unknown, limit = 280): string => {
+  const text = typeof result === 'string' ? result : JSON.stringify(result) ?? '';
+  return text.length > limit ? `${text.slice(0, limit)}…` : text;
+};
+
+const RETRYABLE_NETWORK_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'ETIMEDOUT', 'UND_ERR_CONNECT_TIMEOUT'];
+
+// Rate limits, server errors and dropped connections may pass on a retry; anything else (bad payload, missing
+// permission, unknown resource) fails the same way again. SDKs put the HTTP status and network code in different places
+const isRetryableToolError = (error: unknown): boolean => {
+  const failure = error as {status?: unknown; statusCode?: unknown; code?: unknown; response?: {status?: unknown}; cause?: unknown} | null;
+  const status = failure?.status ?? failure?.statusCode ?? failure?.response?.status;
+
+  if (typeof status === 'number') {
+    return status === 429 || status >= 500;
+  }
+
+  if (typeof failure?.code === 'string' && RETRYABLE_NETWORK_CODES.includes(failure.code)) {
+    return true;
+  }
+
+  return failure?.cause !== undefined && failure.cause !== error ? isRetryableToolError(failure.cause) : false;
+};
+
+// Creates the action for a task and makes it the run's current action
+const startAction = async (stateManager: StateManager, {task_uuid, name, tool}: {task_uuid: string; name: string; tool: Tool}): Promise<Action> => {
+  const state = stateManager.getState();
+
+  const action: Action = {
+    uuid: crypto.randomUUID(),
+    task_uuid,
+    tool_uuid: tool.uuid,
+    name,
+    payload: null,
+    sequence: state.config.step,
+    status: 'pending' as const
+  };
+
+  const persisted_action = await actionService.createAction(action);
+
+  const current_task = state.interaction.tasks.find(task => task.uuid === action.task_uuid);
+  if (current_task) {
+    const updated_tasks = state.interaction.tasks.map(task =>
+      task.uuid === current_task.uuid
+        ? {
+            ...task,
+            actions: [...(task.actions || []), mapActionRecordToAction(persisted_action)]
+          }
+        : task
+    );
+
+    stateManager.updateInteraction({tasks: updated_tasks});
+  }
+
+  await stateManager.updateConfig({
+    current_action: {uuid: action.uuid, name: action.name},
+    current_tool: {uuid: tool.uuid, name: tool.name},
+    current_task: current_task
+      ? {
+          uuid: current_task.uuid,
+          name: current_task.name
+        }
+      : undefined
+  });
+
+  stateManager.emitProgress({
+    type: 'action',
+    action_uuid: action.uuid,
+    name: action.name,
+    tool: tool.name,
+    task_uuid: action.task_uuid
+  });
+
+  return action;
+};
+
+// Stores the tool action and payload on the current action, which stays pending until it's executed
+const storePayload = async (stateManager: StateManager, payload: ToolUsePayload) => {
+  const state = stateManager.getState();
+
+  if (state.config.current_action?.uuid) {
+    const updated_action = await actionService.updateAction(state.config.current_action.uuid, {
+      tool_action: payload.action,
+      payload: payload.payload,
+      status: 'pending'
+    });
+
+    const current_task = state.interaction.tasks.find(t => t.uuid === state.config.current_task?.uuid);
+    if (current_task) {
+      const updated_tasks: Task[] = state.interaction.tasks.map((task: Task) =>
+        task.uuid === current_task.uuid
+          ? {
+              ...task,
+              actions: task.actions.map(action => (action.uuid === updated_action.uuid ? mapActionRecordToAction(updated_action) : action))
+            }
+          : task
+      );
+
+      stateManager.updateInteraction({tasks: updated_tasks});
+    }
+  }
+
+  stateManager.emitProgress({
+    type: 'payload',
+    action_uuid: state.config.current_action?.uuid ?? null,
+    tool: state.config.current_tool?.name ?? null,
+    tool_action: payload.action,
+    payload: payload.payload
+  });
+};
 
 export const aiService = {
 
-  fastTrack: async (span: LangfuseTraceClient): Promise<boolean> => {
+  fastTrack: async (stateManager: StateManager, span: LangfuseTraceClient): Promise<boolean> => {
     const messages = stateManager.getState().interaction.messages;
     const last_three_user_messages = messages
       .filter(message => message.role === 'user' || message.role === 'assistant')
       .slice(-3) as CoreMessage[];
 
+    const fast_track_prompt = promptService.render('agent/fast', stateManager.getState(), stateManager.getState().config.conversation_uuid);
     const fastTrackMessages: CoreMessage[] = [
-      {role: 'system', content: fastTrackPrompt(stateManager.getState())},
+      {role: 'system', content: fast_track_prompt.content},
       ...last_three_user_messages
     ];
 
     const fastTrackGeneration = span.generation({
       name: 'fast_track',
       input: fastTrackMessages,
-      model: stateManager.getState().config.model
+      model: stateManager.getState().config.model,
+      ...promptService.observe(fast_track_prompt)
     });
 
-    const fastTrack = await completion.object<{result: boolean}>({
+    const fastTrack = await completion.object<{_thinking: string; result: boolean}>({
       messages: fastTrackMessages,
       model: stateManager.getState().config.model,
       temperature: 0,
+      usage: trackUsage(stateManager, 'fast_track'),
+      generation: fastTrackGeneration,
       user: { name: stateManager.getState().profile.user_name ?? 'Unknown User', uuid: stateManager.getState().config.conversation_uuid ?? 'unknown-conversation-uuid' }
-    });
+    }, fastTrackSchema);
 
     fastTrackGeneration.end({output: fastTrack});
 
@@ -53,11 +188,16 @@ export const aiService = {
     return fastTrack?.result || false;
   },
 
-  think: async (trace: LangfuseTraceClient) => {
+  think: async (stateManager: StateManager, trace: LangfuseTraceClient | LangfuseSpanClient) => {
     if (!trace) {
       throw new Error('Trace must be provided to think()');
     }
 
+    await aiService.orient(stateManager, trace);
+    await aiService.reason(stateManager, trace);
+  },
+
+  orient: async (stateManager: StateManager, trace: LangfuseTraceClient | LangfuseSpanClient) => {
     const observingSpan = trace.span({
       name: 'observing',
       metadata: {
@@ -67,12 +207,17 @@ export const aiService = {
       }
     });
 
-    await aiService.observe(observingSpan);
-    await aiService.draft(observingSpan);
+    await aiService.observe(stateManager, observingSpan);
+    await aiService.draft(stateManager, observingSpan);
 
     observingSpan.end();
+  },
+
+  reason: async (stateManager: StateManager, trace: LangfuseTraceClient | LangfuseSpanClient) => {
+    let iterations: LoopIteration[] = [];
 
-    while (shouldContinueThinking()) {
+    while (shouldContinueThinking(stateManager)) {
+      const statuses_before = taskStatuses(stateManager.getState());
       const thinkingSpan = trace.span({
         name: `thinking #${stateManager.getState().config.step}`,
         metadata: {
@@ -82,15 +227,60 @@ export const aiService = {
         }
       });
 
-      await aiService.plan(thinkingSpan);
-      await aiService.next(thinkingSpan);
+      await aiService.plan(stateManager, thinkingSpan);
 
-      const state = stateManager.getState();
-      if (state.config.current_tool?.name === 'final_answer') break;
+      const ready_tasks = findReadyTasks(stateManager.getState());
 
-      const payload = await aiService.use(thinkingSpan);
-      if (payload) {
-        await aiService.act(payload, thinkingSpan);
+      // Tasks that don't wait for each other get their actions within the same step
+      if (ready_tasks.length > 1) {
+        await aiService.runConcurrently(stateManager, ready_tasks, thinkingSpan);
+
+        const {current_phase, current_tool} = stateManager.getState().config;
+        if (current_phase === 'awaiting_approval' || current_tool?.name === 'final_answer') {
+          thinkingSpan.end();
+          break;
+        }
+      } else {
+        const [ready_task] = ready_tasks;
+        stateManager.updateConfig({current_task: ready_task ? {uuid: ready_task.uuid, name: ready_task.name} : null});
+
+        let payload: ToolUsePayload | null;
+
+        if (stateManager.getState().config.tool_mode === 'function_calling') {
+          payload = await aiService.call(stateManager, thinkingSpan);
+          if (stateManager.getState().config.current_tool?.name === 'final_answer') break;
+        } else {
+          await aiService.next(stateManager, thinkingSpan);
+
+          const state = stateManager.getState();
+          if (state.config.current_tool?.name === 'final_answer') break;
+
+          payload = await aiService.use(stateManager, thinkingSpan);
+        }
+
+        // Side-effecting actions stop the loop here and wait for the user's decision
+        if (payload && requiresApproval(stateManager, payload.action)) {
+          await aiService.awaitApproval(stateManager, thinkingSpan);
+          thinkingSpan.end();
+          break;
+        }
+
+        if (payload) {
+          await aiService.act(stateManager, payload, thinkingSpan);
+        }
+      }
+
+      iterations.push(describeIteration(stateManager.getState(), statuses_before));
+
+      const loop = detectLoop(iterations);
+      if (loop) {
+        // Steps before an intervention don't count towards the next detection
+        iterations = [];
+
+        if (await aiService.interveneInLoop(stateManager, loop, thinkingSpan)) {
+          thinkingSpan.end();
+          break;
+        }
       }
 
       stateManager.updateConfig({
@@ -99,32 +289,179 @@ export const aiService = {
 
       thinkingSpan.end();
     }
+
+    // Running out of the request's or the user's budget ends the loop early; the final answer explains why
+    const state = stateManager.getState();
+    if (isOverBudget(state)) {
+      stateManager.updateConfig({current_phase: 'budget_exceeded'});
+      await trace.event({name: 'budget_exceeded', input: state.config.budget, output: state.config.usage});
+    }
   },
 
-  observe: async (span: LangfuseSpanClient) => {
+  // Returns true when the loop has to stop
+  interveneInLoop: async (stateManager: StateManager, loop: LoopDetection, span: LangfuseSpanClient): Promise<boolean> => {
+    const {step} = stateManager.getState().config;
+
+    await span.event({
+      name: 'loop_detected',
+      level: 'WARNING',
+      statusMessage: loop.note,
+      input: {kind: loop.kind, actions: loop.actions, step},
+      output: {response: loop.response}
+    });
+
+    switch (loop.response) {
+      case 'correct':
+        stateManager.updateConfig({loop_warning: loop.note});
+        return false;
+
+      case 'final_answer': {
+        const final_answer = stateManager.getState().session.tools.find(tool => tool.name === 'final_answer');
+        stateManager.updateConfig({
+          current_action: null,
+          current_tool: final_answer ? {uuid: final_answer.uuid, name: final_answer.name} : null
+        });
+        return true;
+      }
+
+      case 'escalate':
+        stateManager.updateConfig({current_phase: 'loop_escalated', loop_warning: loop.note});
+        return true;
+    }
+  },
+
+  // Each ready task gets its action picked, filled in and executed on its own copy of the state;
+  // the copies are merged back in task order once all of them have settled
+  runConcurrently: async (stateManager: StateManager, tasks: Task[], span: LangfuseSpanClient) => {
+    const branches = tasks.map(task => {
+      const branch = forkStateManager(stateManager);
+      branch.updateConfig({current_task: {uuid: task.uuid, name: task.name}, current_action: null, current_tool: null});
+      return branch;
+    });
+
+    const results = await Promise.allSettled(
+      branches.map(async (branch, index) => {
+        const branchSpan = span.span({name: `task ${tasks[index].name}`});
+
+        try {
+          let payload: ToolUsePayload | null;
+
+          if (branch.getState().config.tool_mode === 'function_calling') {
+            payload = await aiService.call(branch, branchSpan);
+            if (branch.getState().config.current_tool?.name === 'final_answer') return;
+          } else {
+            const action = await aiService.next(branch, branchSpan);
+            if (!action || branch.getState().config.current_tool?.name === 'final_answer') return;
+
+            payload = await aiService.use(branch, branchSpan);
+          }
+
+          if (payload && requiresApproval(branch, payload.action)) {
+            await aiService.awaitApproval(branch, branchSpan);
+          } else if (payload) {
+            await aiService.act(branch, payload, branchSpan);
+          }
+        } finally {
+          branchSpan.end();
+        }
+      })
+    );
+
+    mergeBranches(stateManager, branches);
+
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) {
+      throw failure.reason;
+    }
+  },
+
+  resume: async (stateManager: StateManager, trace: LangfuseTraceClient) => {
+    await aiService.orient(stateManager, trace);
+
+    const {tasks} = stateManager.getState().interaction;
+    const interrupted_actions = tasks
+      .flatMap(task => task.actions.map(action => ({action, task})))
+      .filter(({action}) => action.status === 'pending')
+      .sort((a, b) => (a.action.sequence ?? 0) - (b.action.sequence ?? 0));
+
+    // Completed actions keep their results; only the ones cut off mid-flight are run again
+    for (const {action, task} of interrupted_actions) {
+      const tool = stateManager.getState().session.tools.find(tool => tool.uuid === action.tool_uuid);
+      if (!tool) continue;
+
+      stateManager.updateConfig({
+        current_task: {uuid: task.uuid, name: task.name},
+        current_action: {uuid: action.uuid, name: action.name},
+        current_tool: {uuid: tool.uuid, name: tool.name}
+      });
+
+      if (tool.name === 'final_answer') break;
+
+      const resumingSpan = trace.span({
+        name: `resuming #${action.sequence}`,
+        metadata: {
+          phase: 'resuming',
+          ...stateManager.getState().config,
+          timestamp: new Date().toISOString()
+        }
+      });
+
+      // Actions that already got a payload run as planned, the rest go through tool use again
+      const payload: ToolUsePayload | null = action.tool_action
+        ? {action: action.tool_action, payload: (typeof action.payload === 'string' ? JSON.parse(action.payload) : action.payload) ?? {}}
+        : await aiService.use(stateManager, resumingSpan);
+
+      if (payload && requiresApproval(stateManager, payload.action)) {
+        await aiService.awaitApproval(stateManager, resumingSpan);
+        resumingSpan.end();
+        return;
+      }
+
+      if (payload) {
+        await aiService.act(stateManager, payload, resumingSpan);
+      }
+
+      resumingSpan.end();
+    }
+
+    if (stateManager.getState().config.current_tool?.name !== 'final_answer') {
+      stateManager.updateConfig({current_task: null, current_action: null, current_tool: null});
+    }
+
+    await aiService.reason(stateManager, trace);
+  },
+
+  observe: async (stateManager: StateManager, span: LangfuseSpanClient) => {
+    announcePhase(stateManager, 'observe');
+
     const state = stateManager.getState();
     const user_message = state.interaction.messages.at(-1)?.content ?? 'Hello';
 
+    const environment_prompt = promptService.render('agent/environment', state, state.config.conversation_uuid);
+    const context_prompt = promptService.render('agent/context', state, state.config.conversation_uuid);
+
     const environmentMessages: CoreMessage[] = [
-      {role: 'system', content: environmentPrompt(state)},
+      {role: 'system', content: environment_prompt.content},
       {role: 'user', content: user_message}
     ];
 
     const generalContextMessages: CoreMessage[] = [
-      {role: 'system', content: generalContextPrompt(state)},
+      {role: 'system', content: context_prompt.content},
       {role: 'user', content: user_message}
     ];
 
     const envGeneration = span.generation({
       name: 'environment',
       input: environmentMessages,
-      model: state.config.alt_model
+      model: state.config.alt_model,
+      ...promptService.observe(environment_prompt)
     });
 
     const contextGeneration = span.generation({
       name: 'context',
       input: generalContextMessages,
-      model: state.config.alt_model
+      model: state.config.alt_model,
+      ...promptService.observe(context_prompt)
     });
 
     const [environmentObservation, generalContextObservation] = await Promise.all([
@@ -132,14 +469,18 @@ export const aiService = {
         messages: environmentMessages,
         model: state.config.alt_model ?? state.config.model,
         temperature: 0,
+        usage: trackUsage(stateManager, 'observe'),
+        generation: envGeneration,
         user: { name: state.profile.user_name ?? 'Unknown User', uuid: state.config.conversation_uuid ?? 'unknown-conversation-uuid' }
-      }),
+      }, environmentSchema),
       completion.object<AgentThoughts['context']>({
         messages: generalContextMessages,
         model: state.config.alt_model ?? state.config.model,
         temperature: 0,
+        usage: trackUsage(stateManager, 'observe'),
+        generation: contextGeneration,
         user: { name: state.profile.user_name ?? 'Unknown User', uuid: state.config.conversation_uuid ?? 'unknown-conversation-uuid' }
-      })
+      }, generalContextSchema)
     ]);
 
     stateManager.updateThoughts({
@@ -152,30 +493,37 @@ export const aiService = {
     return stateManager.getState();
   },
 
-  draft: async (span: LangfuseSpanClient) => {
+  draft: async (stateManager: StateManager, span: LangfuseSpanClient) => {
+    announcePhase(stateManager, 'draft');
+
     const state = stateManager.getState();
     const user_message = state.interaction.messages.at(-1)?.content ?? 'Hello';
 
+    const tools_prompt = promptService.render('agent/tools', state, state.config.conversation_uuid);
+    const memory_prompt = promptService.render('agent/memory', state, state.config.conversation_uuid);
+
     const toolsMessages: CoreMessage[] = [
-      {role: 'system', content: toolsPrompt(state)},
+      {role: 'system', content: tools_prompt.content},
       {role: 'user', content: user_message}
     ];
 
     const memoryMessages: CoreMessage[] = [
-      {role: 'system', content: memoryPrompt(state)},
+      {role: 'system', content: memory_prompt.content},
       {role: 'user', content: user_message}
     ];
 
     const toolsGeneration = span.generation({
       name: 'tools',
       input: toolsMessages,
-      model: state.config.alt_model ?? state.config.model
+      model: state.config.alt_model ?? state.config.model,
+      ...promptService.observe(tools_prompt)
     });
 
     const memoryGeneration = span.generation({
       name: 'memory',
       input: memoryMessages,
-      model: state.config.alt_model ?? state.config.model
+      model: state.config.alt_model ?? state.config.model,
+      ...promptService.observe(memory_prompt)
     });
 
     const [toolsObservation, memoryObservation] = await Promise.all([
@@ -183,14 +531,18 @@ export const aiService = {
         messages: toolsMessages,
         model: state.config.alt_model ?? state.config.model,
         temperature: 0,
+        usage: trackUsage(stateManager, 'draft'),
+        generation: toolsGeneration,
         user: { name: state.profile.user_name ?? 'Unknown User', uuid: state.config.conversation_uuid ?? 'unknown-conversation-uuid' }
-      }),
+      }, toolsSchema),
       completion.object<AgentThoughts['memory']>({
         messages: memoryMessages,
         model: state.config.alt_model ?? state.config.model,
         temperature: 0,
+        usage: trackUsage(stateManager, 'draft'),
+        generation: memoryGeneration,
         user: { name: state.profile.user_name ?? 'Unknown User', uuid: state.config.conversation_uuid ?? 'unknown-conversation-uuid' }
-      })
+      }, memorySchema)
     ]);
 
     stateManager.updateThoughts({
@@ -203,13 +555,16 @@ export const aiService = {
     return stateManager.getState();
   },
 
-  plan: async (span: LangfuseSpanClient) => {
+  plan: async (stateManager: StateManager, span: LangfuseSpanClient) => {
+    announcePhase(stateManager, 'plan');
+
     const state = stateManager.getState();
 
     const user_message = state.interaction.messages.at(-1)?.content ?? 'Hello';
 
+    const task_prompt = promptService.render('agent/task', state, state.config.conversation_uuid);
     const taskMessages: CoreMessage[] = [
-      {role: 'system', content: taskPrompt(state)},
+      {role: 'system', content: task_prompt.content},
       {role: 'user', content: user_message}
     ];
 
@@ -217,39 +572,56 @@ export const aiService = {
       name: 'task_planning',
       input: taskMessages,
       model: state.config.model,
+      ...promptService.observe(task_prompt)
     });
 
     const taskPlanning = await completion.object<AgentThoughts['task']>({
       messages: taskMessages,
       model: state.config.model,
       temperature: 0,
+      usage: trackUsage(stateManager, 'plan'),
+      generation: task_generation,
       user: { name: state.profile.user_name ?? 'Unknown User', uuid: state.config.conversation_uuid ?? 'unknown-conversation-uuid' }
-    });
+    }, taskSchema);
 
-    const persisted_tasks = await taskService.createTasks(state.config.conversation_uuid!, taskPlanning?.result ?? []);
+    const persisted_tasks = await taskService.createTasks(state.config.conversation_uuid!, taskPlanning.result);
 
     stateManager.updateInteraction({
       tasks: persisted_tasks
     });
 
+    // The planner has seen the loop warning, so it isn't repeated in later steps
+    if (state.config.loop_warning) {
+      stateManager.updateConfig({loop_warning: null});
+    }
+
+    stateManager.emitProgress({
+      type: 'tasks',
+      tasks: persisted_tasks.map(({uuid, name, status}) => ({uuid, name, status}))
+    });
+
     await task_generation.end({output: taskPlanning});
 
     return stateManager.getState();
   },
 
-  next: async (span: LangfuseSpanClient) => {
+  next: async (stateManager: StateManager, span: LangfuseSpanClient) => {
+    announcePhase(stateManager, 'next');
+
     const state = stateManager.getState();
     const user_message = state.interaction.messages.at(-1)?.content ?? 'Hello';
 
+    const action_prompt = promptService.render('agent/action', state, state.config.conversation_uuid);
     const actionMessages: CoreMessage[] = [
-      {role: 'system', content: actionPrompt(state)},
+      {role: 'system', content: action_prompt.content},
       {role: 'user', content: user_message}
     ];
 
     const action_generation = span.generation({
       name: 'action_selection',
       input: actionMessages,
-      model: state.config.model
+      model: state.config.model,
+      ...promptService.observe(action_prompt)
     });
 
     interface CompletionUser {
@@ -268,20 +640,24 @@ export const aiService = {
         name: string;
         tool_name: string;
         task_uuid: string;
-      };
+      } | null;
     }>({
       messages: actionMessages,
       model: state.config.model,
       temperature: 0,
+      usage: trackUsage(stateManager, 'next'),
+      generation: action_generation,
       user: currentUser
-    });
+    }, actionSchema);
+
+    const planned_action = actionPlanning.result;
 
-    if (!actionPlanning?.result) {
+    if (!planned_action) {
       await action_generation.end({output: null});
       return;
     }
 
-    const selected_tool = state.session.tools.find(tool => tool.name === actionPlanning.result.tool_name);
+    const selected_tool = state.session.tools.find(tool => tool.name === planned_action.tool_name);
 
     if (!selected_tool) {
       await action_generation.end({output: null});
@@ -293,123 +669,223 @@ export const aiService = {
       return;
     }
 
-    const action: Action = {
-      uuid: crypto.randomUUID(),
-      task_uuid: actionPlanning.result.task_uuid,
-      tool_uuid: selected_tool.uuid,
-      name: actionPlanning.result.name,
-      payload: null,
-      sequence: state.config.step,
-      status: 'pending' as const
-    };
-
-    const persisted_action = await actionService.createAction(action);
-
-    const current_task = state.interaction.tasks.find(task => task.uuid === action.task_uuid);
-    if (current_task) {
-      const updated_tasks = state.interaction.tasks.map(task =>
-        task.uuid === current_task.uuid
-          ? {
-              ...task,
-              actions: [...(task.actions || []), mapActionRecordToAction(persisted_action)]
-            }
-          : task
-      );
-
-      stateManager.updateInteraction({tasks: updated_tasks});
+    // A run that assigned the task (each concurrent branch, or the only ready one) keeps it, so two branches
+    // never act on the same task even if the model picks another one
+    const assigned_task = state.config.current_task;
+    if (assigned_task && planned_action.task_uuid !== assigned_task.uuid) {
+      await action_generation.event({
+        name: 'task_mismatch',
+        level: 'WARNING',
+        input: {assigned_task_uuid: assigned_task.uuid, planned_task_uuid: planned_action.task_uuid}
+      });
     }
 
-    await stateManager.updateConfig({
-      current_action: {uuid: action.uuid, name: action.name},
-      current_tool: {uuid: selected_tool.uuid, name: selected_tool.name},
-      current_task: current_task
-        ? {
-            uuid: current_task.uuid,
-            name: current_task.name
-          }
-        : undefined
-    });
-
-    const updatedState = stateManager.getState();
+    const task_uuid = assigned_task?.uuid ?? planned_action.task_uuid;
+    const action = await startAction(stateManager, {task_uuid, name: planned_action.name, tool: selected_tool});
 
     await action_generation.end({output: actionPlanning});
 
     return action;
   },
 
-  use: async (span: LangfuseSpanClient) => {
+  use: async (stateManager: StateManager, span: LangfuseSpanClient) => {
+    announcePhase(stateManager, 'use');
+
     let state = stateManager.getState();
     const user_message = state.interaction.messages.at(-1)?.content ?? 'Hello';
 
-    if (state.config.current_tool?.name === 'linear') {
-      const linearContext = await linearService.getRecentTasksContext();
-      stateManager.updateInteraction({
-        tool_context: [...(stateManager.getState().interaction.tool_context || []), linearContext]
-      });
-    } else if (state.config.current_tool?.name === 'calendar') {
-      const calendarContext = await calendarService.getRecentEventsContext();
+    if (state.config.current_tool) {
+      const tool_context = await toolContextService.getContext(state.config.current_tool.name, stateManager, span);
       stateManager.updateInteraction({
-        tool_context: [...(stateManager.getState().interaction.tool_context || []), calendarContext]
-      });
-    } else if (state.config.current_tool?.name === 'memory') {
-      const memoryContext = await memoryService.getRecentMemoriesContext();
-      stateManager.updateInteraction({
-        tool_context: [...(stateManager.getState().interaction.tool_context || []), memoryContext]
+        tool_context: [...(stateManager.getState().interaction.tool_context || []), ...tool_context]
       });
     }
 
     state = stateManager.getState();
 
+    const use_prompt = promptService.render('agent/use', state, state.config.conversation_uuid);
     const useMessages: CoreMessage[] = [
-      {role: 'system', content: usePrompt(state)},
+      {role: 'system', content: use_prompt.content},
       {role: 'user', content: user_message}
     ];
 
     const use_generation = span.generation({
       name: 'tool_use',
       input: useMessages,
-      model: state.config.model
+      model: state.config.model,
+      ...promptService.observe(use_prompt)
     });
 
     const toolUse = await completion.object<ToolUseResponse>({
       messages: useMessages,
       model: state.config.model,
       temperature: 0,
+      usage: trackUsage(stateManager, 'use'),
+      generation: use_generation,
       user: { name: state.profile.user_name ?? 'Unknown User', uuid: state.config.conversation_uuid ?? 'unknown-conversation-uuid' }
-    });
+    }, useSchema);
 
     if (!toolUse?.result) {
       await use_generation.end({output: null});
       return null;
     }
 
-    if (state.config.current_action?.uuid) {
-      const updated_action = await actionService.updateAction(state.config.current_action.uuid, {
-        payload: toolUse.result.payload,
-        status: 'pending'
-      });
-
-      const current_task = state.interaction.tasks.find(t => t.uuid === state.config.current_task?.uuid);
-      if (current_task) {
-        const updated_tasks: Task[] = state.interaction.tasks.map((task: Task) =>
-          task.uuid === current_task.uuid
-            ? {
-                ...task,
-                actions: task.actions.map(action => (action.uuid === updated_action.uuid ? mapActionRecordToAction(updated_action) : action))
-              }
-            : task
-        );
-
-        stateManager.updateInteraction({tasks: updated_tasks});
-      }
-    }
+    await storePayload(stateManager, toolUse.result);
 
     await use_generation.end({output: toolUse});
 
     return toolUse.result;
   },
 
-  act: async ({action, payload}: ToolUsePayload, span: LangfuseSpanClient) => {
+  // Function-calling alternative to next() + use(): the tool and its payload come from a single call,
+  // in which every tool of the session is offered to the model as a function
+  call: async (stateManager: StateManager, span: LangfuseSpanClient): Promise<ToolUsePayload | null> => {
+    announcePhase(stateManager, 'call');
+
+    const initial_state = stateManager.getState();
+    const task =
+      initial_state.interaction.tasks.find(task => task.uuid === initial_state.config.current_task?.uuid) ??
+      initial_state.interaction.tasks.find(task => task.status === 'pending');
+
+    if (!task) {
+      return null;
+    }
+
+    stateManager.updateConfig({current_task: {uuid: task.uuid, name: task.name}});
+
+    // The tool isn't known before the call, so the context of the tools drafted for the request is loaded up front
+    const drafted_tools = [...new Set(initial_state.thoughts.tools.map(thought => thought.tool))];
+    const tool_context = (await Promise.all(drafted_tools.map(tool_name => toolContextService.getContext(tool_name, stateManager, span)))).flat();
+    stateManager.updateInteraction({
+      tool_context: [...(stateManager.getState().interaction.tool_context || []), ...tool_context]
+    });
+
+    const state = stateManager.getState();
+    const user_message = state.interaction.messages.at(-1)?.content ?? 'Hello';
+    const functions = toolFunctionService.define(state.session.tools);
+
+    const call_prompt = promptService.render('agent/call', state, state.config.conversation_uuid);
+    const callMessages: CoreMessage[] = [
+      {role: 'system', content: call_prompt.content},
+      {role: 'user', content: user_message}
+    ];
+
+    const call_observation = promptService.observe(call_prompt);
+    const call_generation = span.generation({
+      name: 'function_calling',
+      input: callMessages,
+      model: state.config.model,
+      version: call_observation.version,
+      metadata: {...call_observation.metadata, tools: Object.keys(functions.definitions)}
+    });
+
+    const tool_call = await completion.toolCall({
+      messages: callMessages,
+      model: state.config.model,
+      temperature: 0,
+      usage: trackUsage(stateManager, 'call'),
+      generation: call_generation,
+      user: { name: state.profile.user_name ?? 'Unknown User', uuid: state.config.conversation_uuid ?? 'unknown-conversation-uuid' }
+    }, functions.definitions);
+
+    // A model that calls no tool (or one that doesn't exist) is done with the task
+    const tool = (tool_call && functions.resolve(tool_call.tool_name)) ?? state.session.tools.find(tool => tool.name === 'final_answer');
+
+    if (!tool) {
+      await call_generation.end({output: tool_call});
+      return null;
+    }
+
+    const payload = tool.name === 'final_answer' ? null : toolFunctionService.toPayload(tool, tool_call?.args ?? {});
+
+    await startAction(stateManager, {task_uuid: task.uuid, name: payload?.action || tool.name, tool});
+
+    if (payload) {
+      await storePayload(stateManager, payload);
+    }
+
+    await call_generation.end({output: tool_call});
+
+    return payload;
+  },
+
+  awaitApproval: async (stateManager: StateManager, span: LangfuseSpanClient) => {
+    announcePhase(stateManager, 'awaiting_approval');
+
+    const state = stateManager.getState();
+    const action_uuid = state.config.current_action?.uuid;
+
+    if (!action_uuid) {
+      return;
+    }
+
+    const updated_action = await actionService.updateAction(action_uuid, {status: 'awaiting_approval'});
+
+    const updated_tasks = state.interaction.tasks.map(task => ({
+      ...task,
+      actions: task.actions.map(action => (action.uuid === action_uuid ? mapActionRecordToAction(updated_action) : action))
+    }));
+
+    stateManager.updateInteraction({tasks: updated_tasks});
+    stateManager.updateConfig({current_phase: 'awaiting_approval'});
+
+    await span.event({
+      name: 'action_awaiting_approval',
+      input: {action_uuid, tool: state.config.current_tool?.name},
+      output: {tool_action: updated_action.tool_action, payload: updated_action.payload}
+    });
+  },
+
+  approve: async (stateManager: StateManager, payload_override: Record<string, unknown> | undefined, span: LangfuseSpanClient) => {
+    const state = stateManager.getState();
+    const action_uuid = state.config.current_action?.uuid;
+    const action = state.interaction.tasks.flatMap(task => task.actions).find(action => action.uuid === action_uuid);
+
+    if (!action?.tool_action) {
+      throw new Error(`Action ${action_uuid} has no tool action to execute`);
+    }
+
+    const payload = payload_override ?? (typeof action.payload === 'string' ? JSON.parse(action.payload) : action.payload) ?? {};
+
+    // Already claimed as pending by restoreAwaitingAction; only an edited payload changes here
+    await actionService.updateAction(action.uuid, {payload});
+
+    await span.event({
+      name: 'action_approved',
+      input: {action_uuid: action.uuid, edited: payload_override !== undefined},
+      output: {tool_action: action.tool_action, payload}
+    });
+
+    return aiService.act(stateManager, {action: action.tool_action, payload}, span);
+  },
+
+  reject: async (stateManager: StateManager, reason: string | undefined, span: LangfuseSpanClient) => {
+    const state = stateManager.getState();
+    const action_uuid = state.config.current_action?.uuid;
+
+    if (!action_uuid) {
+      return;
+    }
+
+    const result = `The user rejected this action${reason ? `: ${reason}` : '.'} It was not executed.`;
+    const updated_action = await actionService.updateAction(action_uuid, {status: 'rejected', result});
+
+    const updated_tasks = state.interaction.tasks.map(task => ({
+      ...task,
+      actions: task.actions.map(action => (action.uuid === action_uuid ? mapActionRecordToAction(updated_action) : action))
+    }));
+
+    stateManager.updateInteraction({tasks: updated_tasks});
+
+    await span.event({
+      name: 'action_rejected',
+      input: {action_uuid, reason}
+    });
+  },
+
+  act: async (stateManager: StateManager, {action, payload}: ToolUsePayload, span: LangfuseSpanClient) => {
+    announcePhase(stateManager, 'act');
+
     const state = stateManager.getState();
     const current_tool_config = state.config.current_tool;
 
@@ -426,32 +902,126 @@ export const aiService = {
       throw new Error(errorMsg);
     }
 
-    try {
-      const result = await toolService.execute(action, {...payload, conversation_uuid: state.config.conversation_uuid}, span);
+    const tool = state.session.tools.find(tool => tool.name === current_tool_config.name);
+    // An approved action has side effects the user agreed to once, so it's never repeated
+    const max_attempts = requiresApproval(stateManager, action) ? 1 : Math.max(1, tool?.max_attempts ?? 1);
+    const retry_backoff_ms = tool?.retry_backoff_ms ?? 1000;
+    const tool_name = current_tool_config.name.split('/').pop()?.toLowerCase();
+
+    let result: unknown;
+    let last_error: unknown;
+    let succeeded = false;
+
+    let attempts = 0;
+
+    for (let attempt = 1; attempt <= max_attempts && !succeeded; attempt++) {
+      attempts = attempt;
+      try {
+        result = await toolService.execute(action, {...payload, conversation_uuid: state.config.conversation_uuid}, span, stateManager);
+        succeeded = true;
+      } catch (error) {
+        last_error = error;
+        const will_retry = attempt < max_attempts && isRetryableToolError(error);
+
+        await span.event({
+          name: `${tool_name}_execution_failed`,
+          level: 'ERROR',
+          statusMessage: error instanceof Error ? error.message : String(error),
+          input: {action, payload},
+          metadata: {tool: current_tool_config.name, action, attempt, max_attempts}
+        });
 
-      if (state.config.current_action?.uuid) {
-        await updateActionState({
-          action_uuid: state.config.current_action.uuid,
-          result
+        stateManager.emitProgress({
+          type: 'error',
+          message: `${current_tool_config.name} failed (attempt ${attempt} of ${max_attempts}): ${error instanceof Error ? error.message : String(error)}`,
+          recoverable: will_retry
         });
-      }
 
-      await span.event({
-        name: `${current_tool_config?.name.split('/').pop()?.toLowerCase()}_execution_complete`,
-        input: {action, payload},
-        output: result,
-        metadata: {
-          tool: current_tool_config?.name,
-          action,
-          payload,
-          result
+        if (!will_retry) {
+          break;
         }
+
+        await new Promise(resolve => setTimeout(resolve, retry_backoff_ms * 2 ** (attempt - 1)));
+      }
+    }
+
+    if (!succeeded) {
+      return aiService.fail(
+        stateManager,
+        new ToolExecutionError(current_tool_config.name, action, {cause: last_error, context: {payload, attempts}}),
+        span
+      );
+    }
+
+    toolContextService.invalidate(current_tool_config.name);
+
+    if (state.config.current_action?.uuid) {
+      await updateActionState({
+        action_uuid: state.config.current_action.uuid,
+        result,
+        stateManager
       });
+    }
+
+    stateManager.emitProgress({
+      type: 'result',
+      action_uuid: state.config.current_action?.uuid ?? null,
+      tool: current_tool_config.name,
+      status: 'completed',
+      summary: summarize(result)
+    });
+
+    await span.event({
+      name: `${tool_name}_execution_complete`,
+      input: {action, payload},
+      output: result,
+      metadata: {
+        tool: current_tool_config?.name,
+        action,
+        payload,
+        result
+      }
+    });
+
+    return result;
+  },
+
+  // Records an action that kept failing so the planner and the final answer can work around it instead of the request crashing
+  fail: async (stateManager: StateManager, error: ToolExecutionError, span: LangfuseSpanClient) => {
+    const state = stateManager.getState();
+    const action_uuid = state.config.current_action?.uuid;
+
+    const error_document = await documentService.createErrorDocument({
+      error: error.cause,
+      conversation_uuid: state.config.conversation_uuid ?? 'unknown-conversation-uuid',
+      context: `${error.message} after ${error.context?.attempts} attempt(s). The action was not completed.`,
+      source_uuid: action_uuid
+    });
+
+    if (action_uuid) {
+      const failed_action = await actionService.markActionFailed(action_uuid, error_document);
 
-      return result;
-    } catch (error) {
-      throw error;
+      const updated_tasks = state.interaction.tasks.map(task => ({
+        ...task,
+        actions: task.actions.map(action =>
+          action.uuid === action_uuid ? {...action, status: 'failed', result: failed_action.result, documents: failed_action.documents} : action
+        )
+      }));
+
+      stateManager.updateInteraction({tasks: updated_tasks});
     }
+
+    stateManager.emitProgress({
+      type: 'result',
+      action_uuid: action_uuid ?? null,
+      tool: state.config.current_tool?.name ?? 'unknown',
+      status: 'failed',
+      summary: summarize(error_document.text)
+    });
+
+    span.update({metadata: {error: error.message}});
+
+    return error_document;
   }
 };
 
@@ -466,6 +1036,7 @@ const mapActionRecordToAction = (record: {
   result: unknown;
   task_uuid: string;
   tool_uuid: string;
+  tool_action: string | null;
   payload: unknown;
   sequence: number | null;
 }): Action => ({
@@ -473,6 +1044,7 @@ const mapActionRecordToAction = (record: {
   task_uuid: record.task_uuid,
   tool_uuid: record.tool_uuid,
   name: record.name,
+  tool_action: record.tool_action,
   payload: record.payload,
   sequence: record.sequence,
   status: record.status ?? null,
@@ -4,9 +4,10 @@ import {google, calendar_v3} from 'googleapis';
 import {OAuth2Client} from 'google-auth-library';
 import {LangfuseSpanClient} from 'langfuse';
 import {documentService} from './document.service';
-import {stateManager} from './state.service';
+import type {StateManager} from './state.service';
 import type {DocumentType} from './document.service';
 import {createTextService} from '../common/text.service';
+import {parseLocalTime} from '../../utils/time';
 
 // Initialize text service
 const text_service = await createTextService({model_name: 'gpt-4o'});
@@ -29,18 +30,18 @@ const eventSchema = z.object({
   location: z.string().optional(),
   start: z.object({
     dateTime: z.string(),
-    timeZone: z.string().optional().default('Europe/Warsaw')
+    timeZone: z.string().optional() // the user's timezone when omitted
   }),
   end: z.object({
     dateTime: z.string(),
-    timeZone: z.string().optional().default('Europe/Warsaw')
+    timeZone: z.string().optional() // the user's timezone when omitted
   })
 });
 
 const eventSearchSchema = z.object({
   query: z.string(),
-  timeMin: z.string().transform(date => new Date(date).toISOString()),
-  timeMax: z.string().transform(date => new Date(date).toISOString()),
+  timeMin: z.string(),
+  timeMax: z.string(),
   maxResults: z.number().optional()
 });
 
@@ -51,11 +52,11 @@ const eventUpdateSchema = z.object({
   location: z.string().optional(),
   start: z.object({
     dateTime: z.string(),
-    timeZone: z.string().optional().default('Europe/Warsaw')
+    timeZone: z.string().optional() // the user's timezone when omitted
   }),
   end: z.object({
     dateTime: z.string(),
-    timeZone: z.string().optional().default('Europe/Warsaw')
+    timeZone: z.string().optional() // the user's timezone when omitted
   })
 });
 
@@ -173,25 +174,25 @@ const handleCallback = async (auth: OAuth2Client, code: string, span?: LangfuseS
   }
 };
 
+const toEventTime = (time: {dateTime: string; timeZone?: string}, timezone: string) => {
+  const time_zone = time.timeZone ?? timezone;
+  return {dateTime: parseLocalTime(time.dateTime, time_zone).toISOString(), timeZone: time_zone};
+};
+
 const createEvent = async (
   calendar: calendar_v3.Calendar,
   event_data: z.infer<typeof eventSchema>,
+  timezone: string,
   span?: LangfuseSpanClient
 ): Promise<calendar_v3.Schema$Event> => {
   try {
     const validated_event = eventSchema.parse(event_data);
     
-    // Format dates to ISO 8601 format with seconds and timezone offset
+    // Format dates to ISO 8601 instants, reading the ones without an offset in the event's (or the user's) timezone
     const formatted_event = {
       ...validated_event,
-      start: {
-        ...validated_event.start,
-        dateTime: new Date(validated_event.start.dateTime.replace(' ', 'T')).toISOString()
-      },
-      end: {
-        ...validated_event.end,
-        dateTime: new Date(validated_event.end.dateTime.replace(' ', 'T')).toISOString()
-      }
+      start: toEventTime(validated_event.start, timezone),
+      end: toEventTime(validated_event.end, timezone)
     };
     
     // Remove empty strings for optional fields
@@ -213,6 +214,7 @@ const createEvent = async (
 const searchEvents = async (
   calendar: calendar_v3.Calendar,
   search_params: z.infer<typeof eventSearchSchema>,
+  timezone: string,
   span?: LangfuseSpanClient
 ): Promise<string> => {
   try {
@@ -221,8 +223,8 @@ const searchEvents = async (
     const response = await calendar.events.list({
       calendarId: 'primary',
       q: validated_params.query,
-      timeMin: validated_params.timeMin,
-      timeMax: validated_params.timeMax,
+      timeMin: parseLocalTime(validated_params.timeMin, timezone).toISOString(),
+      timeMax: parseLocalTime(validated_params.timeMax, timezone).toISOString(),
       maxResults: validated_params.maxResults,
       singleEvents: true,
       orderBy: 'startTime'
@@ -267,6 +269,7 @@ ${xml_events}
 const updateEvent = async (
   calendar: calendar_v3.Calendar,
   update_data: z.infer<typeof eventUpdateSchema>,
+  timezone: string,
   span?: LangfuseSpanClient
 ): Promise<calendar_v3.Schema$Event> => {
   try {
@@ -278,14 +281,8 @@ const updateEvent = async (
       eventId: eventId,
       requestBody: {
         ...eventData,
-        start: {
-          ...eventData.start,
-          dateTime: eventData.start.dateTime.replace(' ', 'T')
-        },
-        end: {
-          ...eventData.end,
-          dateTime: eventData.end.dateTime.replace(' ', 'T')
-        }
+        start: toEventTime(eventData.start, timezone),
+        end: toEventTime(eventData.end, timezone)
       },
     });
 
@@ -314,7 +311,7 @@ interface CalendarError extends Error {
 }
 
 const calendarService = {
-  execute: async (action: string, payload: unknown, span?: LangfuseSpanClient): Promise<DocumentType> => {
+  execute: async (action: string, payload: unknown, span: LangfuseSpanClient | undefined, stateManager: StateManager): Promise<DocumentType> => {
     const state = stateManager.getState();
     const conversation_uuid = state.config.conversation_uuid ?? 'unknown';
 
@@ -349,7 +346,7 @@ const calendarService = {
 
       switch (action) {
         case 'create_event': {
-          const event = await createEvent(calendar, payload as z.infer<typeof eventSchema>, span);
+          const event = await createEvent(calendar, payload as z.infer<typeof eventSchema>, state.config.timezone, span);
           const event_text = JSON.stringify(event, null, 2);
           const [tokenized_content] = await text_service.split(event_text, Infinity);
           
@@ -370,7 +367,7 @@ const calendarService = {
         }
 
         case 'update_event': {
-          const event = await updateEvent(calendar, payload as z.infer<typeof eventUpdateSchema>, span);
+          const event = await updateEvent(calendar, payload as z.infer<typeof eventUpdateSchema>, state.config.timezone, span);
           const event_text = JSON.stringify(event, null, 2);
           const [tokenized_content] = await text_service.split(event_text, Infinity);
 
@@ -391,7 +388,7 @@ const calendarService = {
         }
 
         case 'search_events': {
-          const events_xml = await searchEvents(calendar, payload as z.infer<typeof eventSearchSchema>, span);
+          const events_xml = await searchEvents(calendar, payload as z.infer<typeof eventSearchSchema>, state.config.timezone, span);
           const [tokenized_content] = await text_service.split(events_xml, Infinity);
 
           return documentService.createDocument({
@@ -480,18 +477,17 @@ const calendarService = {
     }
   },
 
-  getRecentEventsContext: async (span?: LangfuseSpanClient): Promise<DocumentType> => {
+  getRecentEventsContext: async (stateManager: StateManager, span?: LangfuseSpanClient): Promise<DocumentType> => {
     const today = new Date();
     const timeMin = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString(); // 7 days ago
     const timeMax = new Date(today.getTime() + 7 * 24 * 60 * 60 * 1000).toISOString(); // 7 days ahead
-    const state = stateManager.getState();
 
     return calendarService.execute('search_events', {
       query: '', // Empty query to fetch all events
       timeMin,
       timeMax,
       maxResults: 50 // Reasonable limit for context
-    }, span);
+    }, span, stateManager);
   }
 };
 
@@ -0,0 +1,129 @@
+import type {CoreMessage} from 'ai';
+import {and, desc, eq, sql} from 'drizzle-orm';
+import db from '../../database/db';
+import {conversationDocuments, documents} from '../../schema';
+import {history_budget} from '../../config/llm.config';
+import {promptService} from './prompt.service';
+import {completion} from '../common/llm.service';
+import {contextService} from '../common/context.service';
+import {documentService, type DocumentType} from './document.service';
+import type {UsageContext} from '../../types/llm';
+
+const SUMMARY_NAME = 'conversation_summary';
+
+interface CompactParams {
+  conversation_uuid: string;
+  messages: CoreMessage[];
+  model: string;
+  max_tokens?: number;
+  user: {uuid: string; name: string};
+  usage?: UsageContext;
+}
+
+// Index of the first message of the last `turns` turns; a turn starts with a user message
+const recentTurnsStart = (messages: CoreMessage[], turns: number) => {
+  let seen = 0;
+
+  for (let index = messages.length - 1; index >= 0; index--) {
+    if (messages[index].role === 'user' && ++seen === turns) {
+      return index;
+    }
+  }
+
+  return 0;
+};
+
+const formatTranscript = (messages: CoreMessage[]) =>
+  messages
+    .filter(message => message.role === 'user' || message.role === 'assistant')
+    .map(message => {
+      const content = typeof message.content === 'string' ? message.content : message.content.map(part => ('text' in part ? part.text : `[${part.type}]`)).join('');
+      return `<message role="${message.role}">${content}</message>`;
+    })
+    .join('\n');
+
+export const compactionService = {
+  findSummary: async (conversation_uuid: string): Promise<DocumentType | null> => {
+    const [summary] = await db
+      .select({document: documents})
+      .from(conversationDocuments)
+      .innerJoin(documents, eq(conversationDocuments.document_uuid, documents.uuid))
+      .where(and(eq(conversationDocuments.conversation_uuid, conversation_uuid), sql`json_extract(${documents.metadata}, '$.name') = ${SUMMARY_NAME}`))
+      .orderBy(desc(documents.id))
+      .limit(1);
+
+    return summary ? documentService.mapToDocumentType(summary.document) : null;
+  },
+
+  // Once the history takes more than its share of the model's context window, everything before the last few turns
+  // is replaced with a summary. Summaries are stored with the conversation and extended as more turns fall out of the window.
+  compact: async ({conversation_uuid, messages, model, max_tokens, user, usage}: CompactParams): Promise<CoreMessage[]> => {
+    const budget = Math.floor(contextService.getBudget(model, max_tokens) * history_budget.context_share);
+    const history = messages.filter(message => message.role !== 'system');
+
+    if ((await contextService.countTokens(history)) <= budget) {
+      return messages;
+    }
+
+    const split = recentTurnsStart(history, history_budget.keep_turns);
+    if (split === 0) {
+      return messages;
+    }
+
+    const older = history.slice(0, split);
+    const recent = history.slice(split);
+
+    // The stored summary is reused, or extended with the messages that fell out of the window since it was written;
+    // a summary covering more messages than there are (e.g. the client sent its own history) is written again
+    let summary = await compactionService.findSummary(conversation_uuid);
+    const summarized = summary?.metadata.summarized_messages ?? 0;
+
+    if (!summary || summarized !== older.length) {
+      const [previous_summary, unsummarized] = summary && summarized < older.length ? [summary.text, older.slice(summarized)] : [undefined, older];
+
+      const text = (await completion.text({
+        messages: [
+          {role: 'system', content: promptService.render('agent/compaction', {previous_summary}, conversation_uuid).content},
+          {role: 'user', content: formatTranscript(unsummarized)}
+        ],
+        model,
+        temperature: 0,
+        usage,
+        user
+      })) as string;
+
+      const previous = summary;
+
+      summary = await documentService.createDocument({
+        conversation_uuid,
+        source_uuid: conversation_uuid,
+        text,
+        link_conversation: true,
+        metadata_override: {
+          type: 'document',
+          content_type: 'full',
+          name: SUMMARY_NAME,
+          source: 'compaction',
+          description: `Summary of the first ${older.length} messages of the conversation`,
+          summarized_messages: older.length
+        }
+      });
+
+      // The new summary covers everything the previous one did, which would otherwise stay linked to the conversation
+      if (previous) {
+        await db.transaction(async tx => {
+          await tx.delete(conversationDocuments).where(eq(conversationDocuments.document_uuid, previous.uuid));
+          await tx.delete(documents).where(eq(documents.uuid, previous.uuid));
+        });
+      }
+
+      console.log(`[Compaction] Summarized ${older.length} message(s) of conversation ${conversation_uuid}`);
+    }
+
+    return [
+      ...messages.filter(message => message.role === 'system'),
+      {role: 'system', content: `Summary of the earlier part of this conversation (the messages themselves are no longer available):\n${summary.text}`},
+      ...recent
+    ];
+  }
+};
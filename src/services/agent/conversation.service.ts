@@ -1,13 +1,30 @@
 import db from '../../database/db';
 import {conversations, type NewConversation} from '../../schema/conversation';
 import {v4 as uuidv4} from 'uuid';
-import {eq, desc, gte, and, sql} from 'drizzle-orm';
+import {eq, desc, gte, lte, and, or, isNull, inArray, notInArray, sql, getTableColumns} from 'drizzle-orm';
 import {messages} from '../../schema/message';
+import {
+  actionDocuments,
+  actions,
+  conversationDocuments,
+  conversationMemories,
+  documents,
+  jobs,
+  memories,
+  messageDocuments,
+  taskDocuments,
+  tasks,
+  usage
+} from '../../schema';
+import {vectorService} from '../common/vector.service';
+import {algoliaService} from '../common/algolia.service';
+import {NotFoundError} from '../../utils/errors';
 
 interface CreateConversationParams {
   uuid: string;
   user_id: string;
   name?: string;
+  parent_uuid?: string;
 }
 
 interface GetConversationsParams {
@@ -15,8 +32,41 @@ interface GetConversationsParams {
   limit?: number;
 }
 
+export type ConversationStatus = 'active' | 'archived' | 'delegated';
+
+interface ListConversationsParams {
+  user_id: string;
+  status?: ConversationStatus; // every top-level conversation when omitted
+  from?: string;
+  to?: string;
+  query?: string; // matched against the name and the text of the messages
+  page?: number;
+  per_page?: number;
+}
+
+// Qualified by hand, since drizzle leaves columns unqualified in a select list and "uuid" would resolve to the message's
+const of_conversation = sql.raw('"messages"."conversation_uuid" = "conversations"."uuid"');
+const message_count = sql<number>`(SELECT count(*) FROM ${messages} WHERE ${of_conversation})`.mapWith(Number);
+const last_message_at = sql<string | null>`(SELECT max("messages"."created_at") FROM ${messages} WHERE ${of_conversation})`;
+
+// LIKE pattern matching the text anywhere, with its own wildcards escaped
+const containing = (text: string) => `%${text.replace(/[\\%_]/g, '\\$&')}%`;
+
+// The conversation and the conversations of the runs it delegated, however deep
+const withDelegated = async (uuid: string) => {
+  const tree = [uuid];
+
+  for (let parents = [uuid]; parents.length > 0; ) {
+    const children = await db.select({uuid: conversations.uuid}).from(conversations).where(inArray(conversations.parent_uuid, parents));
+    parents = children.map(child => child.uuid);
+    tree.push(...parents);
+  }
+
+  return tree;
+};
+
 export const conversationService = {
-  create: async ({uuid, user_id, name}: CreateConversationParams): Promise<NewConversation> => {
+  create: async ({uuid, user_id, name, parent_uuid}: CreateConversationParams): Promise<NewConversation> => {
     try {
       const [conversation] = await db
         .insert(conversations)
@@ -24,7 +74,8 @@ export const conversationService = {
           uuid,
           user_id,
           name: name || 'unknown',
-          status: 'active'
+          status: parent_uuid ? 'delegated' : 'active',
+          parent_uuid
         })
         .returning();
 
@@ -48,6 +99,126 @@ export const conversationService = {
     }
   },
 
+  // Conversations of other users are reported as missing
+  findOwned: async (uuid: string, user_id: string) => {
+    const conversation = await conversationService.findByUuid(uuid);
+
+    if (!conversation || conversation.user_id !== user_id) {
+      throw new NotFoundError('Conversation', {context: {uuid}});
+    }
+
+    return conversation;
+  },
+
+  // Most recently active first
+  list: async ({user_id, status, from, to, query, page = 1, per_page = 20}: ListConversationsParams) => {
+    const pattern = query ? containing(query) : null;
+    const conditions = and(
+      eq(conversations.user_id, user_id),
+      status ? eq(conversations.status, status) : isNull(conversations.parent_uuid),
+      from ? gte(conversations.created_at, sql`datetime(${from})`) : undefined,
+      to ? lte(conversations.created_at, sql`datetime(${to})`) : undefined,
+      pattern
+        ? or(
+            sql`${conversations.name} LIKE ${pattern} ESCAPE '\\'`,
+            sql`EXISTS (SELECT 1 FROM ${messages} WHERE ${messages.conversation_uuid} = ${conversations.uuid} AND ${messages.content} LIKE ${pattern} ESCAPE '\\')`
+          )
+        : undefined
+    );
+
+    const [conversations_page, [{total}]] = await Promise.all([
+      db
+        .select({...getTableColumns(conversations), message_count, last_message_at})
+        .from(conversations)
+        .where(conditions)
+        .orderBy(desc(sql`coalesce(${last_message_at}, ${conversations.created_at})`), desc(conversations.id))
+        .limit(per_page)
+        .offset((page - 1) * per_page),
+      db.select({total: sql<number>`count(*)`.mapWith(Number)}).from(conversations).where(conditions)
+    ]);
+
+    return {conversations: conversations_page, pagination: {page, per_page, total, pages: Math.ceil(total / per_page)}};
+  },
+
+  update: async (uuid: string, changes: {name?: string; status?: ConversationStatus}) => {
+    const [conversation] = await db
+      .update(conversations)
+      .set({...changes, updated_at: new Date().toISOString()})
+      .where(eq(conversations.uuid, uuid))
+      .returning();
+
+    return conversation;
+  },
+
+  // Removes the conversation with its delegated runs, messages, tasks, actions, jobs and documents, then their
+  // Qdrant points and Algolia records. Documents saved as memories or attached to another conversation stay,
+  // and so does the usage, which is only detached from the conversation
+  delete: async (uuid: string) => {
+    const conversation_uuids = await withDelegated(uuid);
+
+    const deleted = await db.transaction(async tx => {
+      const message_uuids = (await tx.select({uuid: messages.uuid}).from(messages).where(inArray(messages.conversation_uuid, conversation_uuids))).map(row => row.uuid);
+      const task_uuids = (await tx.select({uuid: tasks.uuid}).from(tasks).where(inArray(tasks.conversation_uuid, conversation_uuids))).map(row => row.uuid);
+      const action_uuids = (await tx.select({uuid: actions.uuid}).from(actions).where(inArray(actions.task_uuid, task_uuids))).map(row => row.uuid);
+
+      const linked = await Promise.all([
+        tx.select({uuid: documents.uuid}).from(documents).where(inArray(documents.conversation_uuid, conversation_uuids)),
+        tx.select({uuid: conversationDocuments.document_uuid}).from(conversationDocuments).where(inArray(conversationDocuments.conversation_uuid, conversation_uuids)),
+        tx.select({uuid: messageDocuments.document_uuid}).from(messageDocuments).where(inArray(messageDocuments.message_uuid, message_uuids)),
+        tx.select({uuid: taskDocuments.document_uuid}).from(taskDocuments).where(inArray(taskDocuments.task_uuid, task_uuids)),
+        tx.select({uuid: actionDocuments.document_uuid}).from(actionDocuments).where(inArray(actionDocuments.action_uuid, action_uuids))
+      ]);
+      const candidates = [...new Set(linked.flat().map(row => row.uuid))];
+
+      const kept = await Promise.all([
+        tx.select({uuid: memories.document_uuid}).from(memories).where(inArray(memories.document_uuid, candidates)),
+        tx
+          .select({uuid: conversationDocuments.document_uuid})
+          .from(conversationDocuments)
+          .where(and(inArray(conversationDocuments.document_uuid, candidates), notInArray(conversationDocuments.conversation_uuid, conversation_uuids)))
+      ]);
+      const kept_uuids = new Set(kept.flat().map(row => row.uuid));
+      const document_uuids = candidates.filter(document_uuid => !kept_uuids.has(document_uuid));
+
+      await tx.delete(messageDocuments).where(or(inArray(messageDocuments.message_uuid, message_uuids), inArray(messageDocuments.document_uuid, document_uuids)));
+      await tx.delete(taskDocuments).where(or(inArray(taskDocuments.task_uuid, task_uuids), inArray(taskDocuments.document_uuid, document_uuids)));
+      await tx.delete(actionDocuments).where(or(inArray(actionDocuments.action_uuid, action_uuids), inArray(actionDocuments.document_uuid, document_uuids)));
+      await tx
+        .delete(conversationDocuments)
+        .where(or(inArray(conversationDocuments.conversation_uuid, conversation_uuids), inArray(conversationDocuments.document_uuid, document_uuids)));
+      await tx.delete(conversationMemories).where(inArray(conversationMemories.conversation_uuid, conversation_uuids));
+
+      await tx.delete(jobs).where(inArray(jobs.task_uuid, task_uuids));
+      await tx.delete(actions).where(inArray(actions.uuid, action_uuids));
+      await tx.delete(tasks).where(inArray(tasks.uuid, task_uuids));
+      await tx.update(usage).set({conversation_uuid: null, message_uuid: null}).where(inArray(usage.conversation_uuid, conversation_uuids));
+      await tx.delete(messages).where(inArray(messages.uuid, message_uuids));
+
+      await tx.delete(documents).where(inArray(documents.uuid, document_uuids));
+      await tx.update(documents).set({conversation_uuid: null}).where(inArray(documents.conversation_uuid, conversation_uuids));
+      await tx.delete(conversations).where(inArray(conversations.uuid, conversation_uuids));
+
+      return {
+        conversations: conversation_uuids.length,
+        messages: message_uuids.length,
+        tasks: task_uuids.length,
+        actions: action_uuids.length,
+        documents: document_uuids
+      };
+    });
+
+    // The database no longer has these documents, so a search index that fails here only keeps orphans around
+    const search_cleanup = await Promise.allSettled([
+      deleted.documents.length > 0 ? vectorService.deletePoints(deleted.documents) : Promise.resolve(),
+      ...deleted.documents.map(document_uuid => algoliaService.deleteDocument(document_uuid))
+    ]);
+    search_cleanup
+      .filter(result => result.status === 'rejected')
+      .forEach(result => console.error('[Conversations] Failed to remove a deleted document from search:', (result as PromiseRejectedResult).reason));
+
+    return {...deleted, documents: deleted.documents.length};
+  },
+
   getOrCreate: async (conversation_id: string | undefined, user_id: string): Promise<string> => {
     try {
       if (conversation_id) {
@@ -77,6 +248,7 @@ export const conversationService = {
         .where(
           and(
             eq(conversations.user_id, user_id),
+            isNull(conversations.parent_uuid),
             gte(conversations.created_at, sql`datetime('now', '-15 minutes')`)
           )
         )
@@ -0,0 +1,165 @@
+import {z} from 'zod';
+import {v4 as uuidv4} from 'uuid';
+import type {LangfuseSpanClient} from 'langfuse';
+import {forkStateManager, type StateManager} from './state.service';
+import {conversationService} from './conversation.service';
+import {actionService} from './action.service';
+import {documentService, type DocumentType} from './document.service';
+import {completion} from '../common/llm.service';
+import {trackUsage} from '../common/usage.service';
+import {fixtureService} from '../common/fixture.service';
+import {promptService} from './prompt.service';
+import {ValidationError} from '../../utils/errors';
+
+const delegatePayloadSchema = z.object({
+  goal: z.string().min(1),
+  tools: z.array(z.string()).min(1),
+  max_steps: z.number().int().min(1).max(10).optional().default(5),
+  conversation_uuid: z.string()
+});
+
+// Budget limits of the delegated run are whatever the parent run has left
+const remainingBudget = (stateManager: StateManager) => {
+  const {budget, usage} = stateManager.getState().config;
+
+  return {
+    tokens: budget.tokens !== null ? Math.max(0, budget.tokens - usage.tokens) : null,
+    cost: budget.cost !== null ? Math.max(0, budget.cost - usage.cost) : null
+  };
+};
+
+// Nobody can approve an action in the middle of a delegated run, so it's handed back to the parent instead
+const releaseAwaitingActions = async (child: StateManager) => {
+  const awaiting = child
+    .getState()
+    .interaction.tasks.flatMap(task => task.actions)
+    .filter(action => action.status === 'awaiting_approval');
+
+  const released = await Promise.all(
+    awaiting.map(action =>
+      actionService.updateAction(action.uuid, {
+        status: 'rejected',
+        result: 'This action needs the user\'s approval, which a delegated run can\'t ask for. It was not executed.'
+      })
+    )
+  );
+
+  const released_uuids = new Set(released.map(action => action.uuid));
+  const {tasks} = child.getState().interaction;
+
+  child.updateInteraction({
+    tasks: tasks.map(task => ({
+      ...task,
+      actions: task.actions.map(action =>
+        released_uuids.has(action.uuid)
+          ? {...action, status: 'rejected', result: released.find(({uuid}) => uuid === action.uuid)?.result as string}
+          : action
+      )
+    }))
+  });
+};
+
+export const delegateService = {
+  // Runs the goal through a separate agent loop limited to the listed tools and returns only its summary,
+  // so the intermediate actions of the subtask never land in the parent's context
+  execute: async (action: string, payload: unknown, span?: LangfuseSpanClient, stateManager?: StateManager): Promise<DocumentType> => {
+    if (action !== 'delegate') {
+      throw new ValidationError(`Unknown delegate action: ${action}`);
+    }
+
+    if (!span || !stateManager) {
+      throw new ValidationError('Delegation needs the span and state of the run that delegates');
+    }
+
+    const {goal, tools, max_steps, conversation_uuid} = delegatePayloadSchema.parse(payload);
+    const parent = stateManager.getState();
+
+    // A delegated run can't delegate again, but it can always finish
+    const allowed_tools = parent.session.tools.filter(
+      tool => tool.name !== 'delegate' && (tool.name === 'final_answer' || tools.includes(tool.name))
+    );
+    const unknown_tools = tools.filter(name => !allowed_tools.some(tool => tool.name === name));
+
+    if (allowed_tools.length === 1) {
+      throw new ValidationError(`None of the tools can be delegated: ${tools.join(', ')}`);
+    }
+
+    const child_uuid = uuidv4();
+
+    // The goal isn't stored as a message, so the delegated conversation is never offered as an interrupted run
+    await conversationService.create({
+      uuid: child_uuid,
+      user_id: parent.config.user_uuid ?? 'unknown',
+      name: `Delegated: ${goal.slice(0, 80)}`,
+      parent_uuid: conversation_uuid
+    });
+
+    const child = forkStateManager(stateManager);
+    child.updateConfig({
+      step: 1,
+      max_steps: max_steps + 1,
+      current_phase: 'initialization',
+      current_task: null,
+      current_action: null,
+      current_tool: null,
+      conversation_uuid: child_uuid,
+      usage: {tokens: 0, cost: 0},
+      loop_warning: null,
+      budget: remainingBudget(stateManager)
+    });
+    child.updateInteraction({messages: [{id: uuidv4(), role: 'user', content: goal}], tasks: [], tool_context: []});
+    child.updateSession({tools: allowed_tools, documents: []});
+
+    const unlink = fixtureService.linkConversation(child_uuid, parent.config.conversation_uuid);
+    const delegateSpan = span.span({
+      name: 'delegate',
+      input: {goal, tools: allowed_tools.map(tool => tool.name), max_steps},
+      metadata: {parent_conversation_uuid: conversation_uuid, conversation_uuid: child_uuid, unknown_tools}
+    });
+
+    try {
+      // Loaded lazily: ai.service executes tools, and this tool is part of the tools it loads
+      const {aiService} = await import('./ai.service');
+      await aiService.think(child, delegateSpan);
+      await releaseAwaitingActions(child);
+
+      const state = child.getState();
+      const summary = await completion.text({
+        messages: [
+          {role: 'system', content: promptService.render('agent/delegate', state, child_uuid).content},
+          {role: 'user', content: goal}
+        ],
+        model: state.config.model,
+        temperature: 0,
+        usage: trackUsage(child, 'act'),
+        user: {name: state.profile.user_name, uuid: child_uuid}
+      });
+
+      delegateSpan.end({output: {summary, steps: state.config.step - 1, usage: child.getState().config.usage}});
+
+      return documentService.createDocument({
+        conversation_uuid,
+        source_uuid: child_uuid,
+        text: summary as string,
+        metadata_override: {
+          type: 'document',
+          content_type: 'full',
+          name: 'delegation_summary',
+          source: 'delegate',
+          mimeType: 'text/plain',
+          description: `Summary of the delegated subtask: ${goal}`
+        }
+      });
+    } catch (error) {
+      delegateSpan.end({level: 'ERROR', statusMessage: error instanceof Error ? error.message : String(error)});
+      throw error;
+    } finally {
+      unlink();
+
+      // Whatever the delegated run spent counts against the parent run's budget
+      const {usage} = stateManager.getState().config;
+      const child_usage = child.getState().config.usage;
+      stateManager.updateConfig({usage: {tokens: usage.tokens + child_usage.tokens, cost: usage.cost + child_usage.cost}});
+    }
+  }
+};
@@ -3,7 +3,7 @@ import db from '../../database/db';
 import {documentHooks, documents, type Document} from '../../schema/document';
 import {ValidationError} from '../../utils/errors';
 import type {DocumentMetadata} from '../../types/document';
-import {actionDocuments, taskDocuments} from '../../schema';
+import {actionDocuments, conversationDocuments, taskDocuments} from '../../schema';
 import {v4 as uuidv4} from 'uuid';
 import {createTextService} from '../common/text.service';
 import {eq} from 'drizzle-orm';
@@ -27,6 +27,7 @@ const DocumentMetadataSchema = z.object({
   screenshots: z.array(z.string()).optional(),
   should_index: z.boolean().optional(),
   updated_at: z.string().optional(),
+  summarized_messages: z.number().optional(),
   category: z.string().optional().refine(val => {
     if (val === undefined) return true;
     return val !== undefined || metadata.content_type !== 'memory';
@@ -49,6 +50,7 @@ interface CreateDocumentParams {
   metadata_override?: Partial<DocumentMetadata>;
   task_uuid?: string;
   action_uuid?: string;
+  link_conversation?: boolean; // lists the document among the conversation's documents
   name?: string;
   description?: string;
   content_type?: 'complete' | 'chunk' | 'full' | 'memory';
@@ -105,6 +107,7 @@ export const documentService = {
     metadata_override = {},
     task_uuid,
     action_uuid,
+    link_conversation = false,
     name,
     description,
     content_type = 'full',
@@ -165,6 +168,13 @@ export const documentService = {
         });
       }
 
+      if (link_conversation) {
+        await tx.insert(conversationDocuments).values({
+          conversation_uuid,
+          document_uuid: document_uuid
+        });
+      }
+
       return [doc];
     });
 
@@ -0,0 +1,375 @@
+import {z} from 'zod';
+import {dirname, resolve} from 'path';
+import {v4 as uuidv4} from 'uuid';
+import type {Message} from 'ai';
+import {createStateManager, type StateManager} from './state.service';
+import {aiService} from './ai.service';
+import {observer} from './observer.service';
+import {conversationService} from './conversation.service';
+import {toolRegistrationService} from './tool.registration.service';
+import {fixtureService, type Divergence, type Fixture} from '../common/fixture.service';
+import {default_model, providers} from '../../config/llm.config';
+import {formatLocalTime, resolveTimeSettings} from '../../utils/time';
+import {validateJsonSchema, type JsonSchema} from '../../utils/json-schema';
+import type {ProgressEvent, Tool} from '../../types/agent';
+
+const RangeSchema = z.union([z.number().int(), z.object({min: z.number().int().optional(), max: z.number().int().optional()})]);
+
+const EvalToolSchema = z.object({
+  uuid: z.string(),
+  name: z.string(),
+  description: z.string().nullable().default(null),
+  instruction: z.string().nullable().default(null),
+  approval_actions: z.array(z.string()).optional(),
+  max_attempts: z.number().int().optional(),
+  retry_backoff_ms: z.number().int().optional(),
+  input_schema: z.record(z.unknown()).optional(), // MCP tools: JSON Schema of the arguments
+  payload_schemas: z.record(z.record(z.unknown())).optional() // native tools: JSON Schema of the payload, by action
+});
+
+const ScenarioSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  messages: z.array(z.object({role: z.enum(['user', 'assistant']), content: z.string()})).min(1),
+  profile: z
+    .object({
+      user_name: z.string().default('User'),
+      ai_name: z.string().default('Alice'),
+      context: z.string().nullable().default(null),
+      environment: z.record(z.unknown()).default({}),
+      instructions: z.string().nullable().default(null)
+    })
+    .default({}),
+  config: z
+    .object({
+      model: z.string().optional(),
+      tool_mode: z.enum(['prompt', 'function_calling']).optional(),
+      max_steps: z.number().int().positive().default(10),
+      time: z.string().optional() // "YYYY-MM-DD HH:mm" in the user's timezone; the current time when omitted
+    })
+    .default({}),
+  categories: z.array(z.object({category: z.string(), subcategory: z.string().default(''), description: z.string().default('')})).default([]),
+  memories: z.array(z.object({name: z.string(), category: z.string(), subcategory: z.string().default(''), text: z.string()})).default([]),
+  tools: z.array(EvalToolSchema).optional(), // defaults to the tools of the fixture
+  fixture: z.string().optional(), // recorded with AGI_RECORD_FIXTURES, relative to the scenario file
+  // Stubbed LLM: outputs served per phase (observe, draft, plan, next, use, call) in order; tasks may be referred to by name
+  completions: z.array(z.object({key: z.string(), output: z.unknown()})).default([]),
+  tool_calls: z
+    .array(
+      z.object({
+        tool: z.string(),
+        action: z.string(),
+        payload: z.record(z.unknown()).default({}),
+        result: z.unknown().optional(),
+        error: z.string().optional()
+      })
+    )
+    .default([]),
+  expected: z
+    .object({
+      tools: z.array(z.string()).optional(), // tools selected in order, without final_answer
+      tasks: RangeSchema.optional(),
+      steps: RangeSchema.optional()
+    })
+    .default({})
+});
+
+export type Scenario = z.infer<typeof ScenarioSchema>;
+type Range = z.infer<typeof RangeSchema>;
+
+interface PayloadCheck {
+  tool: string | null;
+  action: string;
+  valid: boolean | null; // null when the tool has no schema for the action
+  errors: string[];
+}
+
+interface CountCheck {
+  expected: Range | null;
+  actual: number;
+  passed: boolean;
+}
+
+export interface ScenarioResult {
+  name: string;
+  file: string;
+  passed: boolean;
+  error: string | null; // why the run stopped before the final answer
+  tools: {expected: string[] | null; actual: string[]; accuracy: number | null};
+  payloads: PayloadCheck[];
+  payload_validity: number | null;
+  tasks: CountCheck;
+  steps: CountCheck;
+  divergences: Divergence[];
+}
+
+export interface EvalReport {
+  generated_at: string;
+  summary: {
+    scenarios: number;
+    passed: number;
+    tool_accuracy: number | null;
+    payload_validity: number | null;
+    tasks_passed: number;
+    steps_passed: number;
+  };
+  scenarios: ScenarioResult[];
+}
+
+const inRange = (range: Range | null, value: number) =>
+  range === null || (typeof range === 'number' ? value === range : (range.min ?? -Infinity) <= value && value <= (range.max ?? Infinity));
+
+const formatRange = (range: Range | null) =>
+  range === null ? 'any' : typeof range === 'number' ? String(range) : `${range.min ?? ''}..${range.max ?? ''}`;
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null);
+
+const formatScore = (score: number | null) => (score === null ? 'n/a' : `${Math.round(score * 100)}%`);
+
+// Position by position, so a right tool picked at the wrong moment counts as a miss
+const toolAccuracy = (expected: string[], actual: string[]) => {
+  const length = Math.max(expected.length, actual.length);
+  return length === 0 ? 1 : expected.filter((tool, index) => actual[index] === tool).length / length;
+};
+
+const loadFixture = async (scenario: Scenario, file: string): Promise<Fixture> => {
+  const recorded: Fixture | null = scenario.fixture ? await Bun.file(resolve(dirname(file), scenario.fixture)).json() : null;
+  const tools = scenario.tools ?? recorded?.tools;
+
+  if (!tools) {
+    throw new Error(`Scenario ${scenario.name} lists no tools and has no fixture to take them from`);
+  }
+
+  return {
+    version: 1,
+    recorded_at: recorded?.recorded_at ?? new Date().toISOString(),
+    request: recorded?.request ?? ({} as Fixture['request']),
+    tools: tools.map(tool => {
+      const {payload_schemas, ...rest} = tool as z.infer<typeof EvalToolSchema>;
+      return rest;
+    }),
+    completions: [
+      ...(recorded?.completions ?? []),
+      ...scenario.completions.map(({key, output}) => ({
+        key,
+        kind: key === 'call' ? ('tool_call' as const) : ('object' as const),
+        model: scenario.config.model ?? default_model,
+        messages: [],
+        output
+      }))
+    ],
+    tool_calls: [...(recorded?.tool_calls ?? []), ...scenario.tool_calls],
+    decisions: recorded?.decisions ?? []
+  };
+};
+
+// The state setInteractionState would build, taken from the scenario instead of the database
+const buildState = (stateManager: StateManager, scenario: Scenario, tools: Tool[], conversation_uuid: string, user_uuid: string) => {
+  const model = scenario.config.model ?? default_model;
+  const {timezone, locale} = resolveTimeSettings(scenario.profile.environment);
+
+  // Memories look like recalled ones: the prompts read their text from the memory or from the session's documents
+  const documents = scenario.memories.map(memory => ({
+    uuid: uuidv4(),
+    source_uuid: conversation_uuid,
+    conversation_uuid,
+    text: memory.text,
+    metadata: {type: 'text' as const, content_type: 'memory' as const, name: memory.name, category: memory.category, subcategory: memory.subcategory, tokens: 0}
+  }));
+  const memories = scenario.memories.map((memory, index) => ({
+    id: index + 1,
+    uuid: uuidv4(),
+    name: memory.name,
+    category: memory.category,
+    category_uuid: memory.category,
+    document_uuid: documents[index].uuid,
+    document: documents[index],
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString()
+  }));
+
+  stateManager.updateConfig({
+    step: 1,
+    max_steps: scenario.config.max_steps,
+    current_phase: 'initialization',
+    user_uuid,
+    conversation_uuid,
+    tool_mode: scenario.config.tool_mode ?? Object.values(providers).find(models => models[model])?.[model]?.tool_mode ?? 'prompt',
+    model,
+    timezone,
+    locale,
+    time: scenario.config.time ?? formatLocalTime(new Date(), timezone)
+  });
+
+  stateManager.updateProfile({
+    ai_name: scenario.profile.ai_name,
+    user_name: scenario.profile.user_name,
+    instructions: scenario.profile.instructions,
+    context: scenario.profile.context,
+    environment: scenario.profile.environment
+  });
+
+  stateManager.updateSession({tools, categories: scenario.categories, memories, documents});
+
+  stateManager.updateInteraction({
+    messages: scenario.messages.map(message => ({id: uuidv4(), ...message})) as Message[]
+  });
+};
+
+const checkPayloads = (decisions: ProgressEvent[], scenario: Scenario, tools: Tool[]): PayloadCheck[] =>
+  decisions.flatMap((decision): PayloadCheck[] => {
+    if (decision.type !== 'payload') {
+      return [];
+    }
+
+    const tool = tools.find(tool => tool.name === decision.tool);
+    const schema = (tool?.input_schema ?? scenario.tools?.find(tool => tool.name === decision.tool)?.payload_schemas?.[decision.tool_action]) as
+      | JsonSchema
+      | undefined;
+
+    if (!schema) {
+      return [{tool: decision.tool, action: decision.tool_action, valid: null, errors: []}];
+    }
+
+    const errors = validateJsonSchema(schema, decision.payload);
+    return [{tool: decision.tool, action: decision.tool_action, valid: errors.length === 0, errors}];
+  });
+
+export const evalService = {
+  // Scenario files are JSON, one scenario each; a directory is read recursively
+  loadScenarios: async (paths: string[]): Promise<Array<{file: string; scenario: Scenario}>> => {
+    const files = (
+      await Promise.all(
+        paths.map(async path =>
+          path.endsWith('.json') ? [path] : Array.fromAsync(new Bun.Glob('**/*.json').scan({cwd: path, absolute: true}))
+        )
+      )
+    )
+      .flat()
+      .sort();
+
+    return Promise.all(files.map(async file => ({file, scenario: ScenarioSchema.parse(await Bun.file(file).json())})));
+  },
+
+  // Runs the reasoning loop on the scenario with the LLM and the tools served by its fixture or stubs
+  run: async (scenario: Scenario, file: string): Promise<ScenarioResult> => {
+    const fixture = await loadFixture(scenario, file);
+    toolRegistrationService.initializeFromFixture(fixture);
+
+    const conversation_uuid = uuidv4();
+    const user_uuid = 'eval';
+    await conversationService.create({uuid: conversation_uuid, user_id: user_uuid, name: `eval: ${scenario.name}`});
+
+    const stateManager = createStateManager();
+    buildState(stateManager, scenario, fixture.tools, conversation_uuid, user_uuid);
+
+    const decisions: ProgressEvent[] = [];
+    stateManager.onProgress(event => decisions.push(event));
+    fixtureService.startReplay(stateManager, fixture);
+
+    let error: string | null = null;
+    try {
+      const trace = await observer.initializeTrace(`eval: ${scenario.name}`, stateManager.getState());
+      await aiService.think(stateManager, trace);
+    } catch (run_error) {
+      error = run_error instanceof Error ? run_error.message : String(run_error);
+    }
+
+    const replay = fixtureService.finishReplay(conversation_uuid);
+    const state = stateManager.getState();
+
+    // Scoring only needs the state in memory, so nothing of the run stays in the local database
+    await conversationService
+      .delete(conversation_uuid)
+      .catch(cleanup_error => console.error(`[Eval] Failed to remove the conversation of ${scenario.name}:`, cleanup_error));
+
+    const actual_tools = decisions.flatMap(decision => (decision.type === 'action' && decision.tool !== 'final_answer' ? [decision.tool] : []));
+    const expected_tools = scenario.expected.tools ?? null;
+    const payloads = checkPayloads(decisions, scenario, fixture.tools);
+    const checked = payloads.filter(payload => payload.valid !== null);
+
+    const tasks = {expected: scenario.expected.tasks ?? null, actual: state.interaction.tasks.length, passed: false};
+    tasks.passed = inRange(tasks.expected, tasks.actual);
+    const steps = {expected: scenario.expected.steps ?? null, actual: state.config.step, passed: false};
+    steps.passed = inRange(steps.expected, steps.actual);
+
+    const accuracy = expected_tools ? toolAccuracy(expected_tools, actual_tools) : null;
+    const payload_validity = checked.length > 0 ? checked.filter(payload => payload.valid).length / checked.length : null;
+
+    return {
+      name: scenario.name,
+      file,
+      passed: error === null && (accuracy ?? 1) === 1 && (payload_validity ?? 1) === 1 && tasks.passed && steps.passed,
+      error,
+      tools: {expected: expected_tools, actual: actual_tools, accuracy},
+      payloads,
+      payload_validity,
+      tasks,
+      steps,
+      // Decisions are only compared with a recording; stubs have none, so only what they lacked is reported
+      divergences: scenario.fixture ? replay.divergences : replay.divergences.filter(divergence => divergence.kind.startsWith('missing'))
+    };
+  },
+
+  summarize: (results: ScenarioResult[]): EvalReport => {
+    const payloads = results.flatMap(result => result.payloads).filter(payload => payload.valid !== null);
+
+    return {
+      generated_at: new Date().toISOString(),
+      summary: {
+        scenarios: results.length,
+        passed: results.filter(result => result.passed).length,
+        tool_accuracy: average(results.flatMap(result => (result.tools.accuracy === null ? [] : [result.tools.accuracy]))),
+        payload_validity: payloads.length > 0 ? payloads.filter(payload => payload.valid).length / payloads.length : null,
+        tasks_passed: results.filter(result => result.tasks.passed).length,
+        steps_passed: results.filter(result => result.steps.passed).length
+      },
+      scenarios: results
+    };
+  },
+
+  toMarkdown: (report: EvalReport): string => {
+    const {summary} = report;
+    const lines = [
+      '# Evaluation report',
+      '',
+      `Generated at ${report.generated_at}`,
+      '',
+      `- Scenarios passed: ${summary.passed}/${summary.scenarios}`,
+      `- Tool selection accuracy: ${formatScore(summary.tool_accuracy)}`,
+      `- Payload validity: ${formatScore(summary.payload_validity)}`,
+      `- Task count within expectations: ${summary.tasks_passed}/${summary.scenarios}`,
+      `- Step count within expectations: ${summary.steps_passed}/${summary.scenarios}`,
+      '',
+      '| Scenario | Result | Tools | Payloads | Tasks | Steps |',
+      '| --- | --- | --- | --- | --- | --- |',
+      ...report.scenarios.map(
+        result =>
+          `| ${result.name} | ${result.passed ? 'pass' : 'FAIL'} | ${formatScore(result.tools.accuracy)} | ${formatScore(result.payload_validity)} | ` +
+          `${result.tasks.actual} (${formatRange(result.tasks.expected)}) | ${result.steps.actual} (${formatRange(result.steps.expected)}) |`
+      )
+    ];
+
+    for (const result of report.scenarios.filter(result => !result.passed)) {
+      lines.push('', `## ${result.name}`, '', `File: ${result.file}`, '');
+
+      if (result.error) {
+        lines.push(`- Stopped early: ${result.error}`);
+      }
+      if (result.tools.accuracy !== null && result.tools.accuracy < 1) {
+        lines.push(`- Tools: expected ${result.tools.expected?.join(', ') || 'none'}, selected ${result.tools.actual.join(', ') || 'none'}`);
+      }
+      for (const payload of result.payloads.filter(payload => payload.valid === false)) {
+        lines.push(`- Invalid payload for ${payload.tool} ${payload.action}: ${payload.errors.join('; ')}`);
+      }
+      if (!result.tasks.passed) {
+        lines.push(`- Tasks: expected ${formatRange(result.tasks.expected)}, planned ${result.tasks.actual}`);
+      }
+      if (!result.steps.passed) {
+        lines.push(`- Steps: expected ${formatRange(result.steps.expected)}, took ${result.steps.actual}`);
+      }
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+};
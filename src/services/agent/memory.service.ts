@@ -8,8 +8,9 @@ import { v4 as uuidv4 } from 'uuid';
 import { categoryService } from './category.service';
 import { searchService } from '../common/search.service';
 import { completion } from '../common/llm.service';
-import { stateManager } from './state.service';
-import { memoryRecallPrompt } from '../../prompts/tools/memory.recall';
+import type { StateManager } from './state.service';
+import { trackUsage } from '../common/usage.service';
+import { promptService } from './prompt.service';
 import { memory_categories } from '../../config/memory.config';
 import { LangfuseSpanClient } from 'langfuse';
 
@@ -72,6 +73,36 @@ const MemoryActionSchema = z.discriminatedUnion('action', [
   })
 ]);
 
+// The persona of the run may limit the memory categories it reads and writes
+const isCategoryAllowed = (stateManager: StateManager, category: string) => {
+  const allowed = stateManager.getState().profile.memory_categories;
+  return !allowed || allowed.includes(category);
+};
+
+// Name of the first category, of a stored memory or of the one it's moved to, that the persona can't touch
+const findDeniedCategory = async (stateManager: StateManager, category_uuids: Array<string | undefined>) => {
+  if (!stateManager.getState().profile.memory_categories) {
+    return null;
+  }
+
+  for (const category_uuid of category_uuids) {
+    const category = category_uuid ? await categoryService.findByUuid(category_uuid) : undefined;
+    if (category && !isCategoryAllowed(stateManager, category.name)) {
+      return category.name;
+    }
+  }
+
+  return null;
+};
+
+const categoryUnavailable = (category: string, conversation_uuid: string) =>
+  documentService.createErrorDocument({
+    error: new Error(`Memory category "${category}" isn't available to the current persona`),
+    conversation_uuid,
+    context: 'Memory service execution',
+    source_uuid: 'memory_service'
+  });
+
 interface MemoryQuery {
   _thinking: string;
   queries: Array<{
@@ -155,10 +186,13 @@ export const memoryService = {
     }
   },
 
-  async recallMemories(query: string, limit: number, conversation_uuid: string, filters?: SearchFilters): Promise<DocumentType> {
+  async recallMemories(query: string, limit: number, conversation_uuid: string, filters: SearchFilters | undefined, stateManager: StateManager): Promise<DocumentType> {
     try {
-      const queries = await this.selfQuery(query);
-      const search_promises = queries.queries.map(async query_item => {
+      const queries = await this.selfQuery(query, stateManager);
+      const allowed_queries = queries.queries.filter(
+        query_item => isCategoryAllowed(stateManager, query_item.category) && (!filters?.category || isCategoryAllowed(stateManager, filters.category))
+      );
+      const search_promises = allowed_queries.map(async query_item => {
         const combined_filters = {
           ...filters,
           category: query_item.category,
@@ -171,7 +205,7 @@ export const memoryService = {
             text_query: query_item.query
           },
           combined_filters,
-          Math.ceil(limit / queries.queries.length)
+          Math.ceil(limit / allowed_queries.length)
         );
       });
 
@@ -347,16 +381,17 @@ export const memoryService = {
     });
   },
 
-  async selfQuery(query: string): Promise<MemoryQuery> {
+  async selfQuery(query: string, stateManager: StateManager): Promise<MemoryQuery> {
     const state = stateManager.getState();
     
     const queries = await completion.object<MemoryQuery>({
       model: state.config.model ?? 'gpt-4o',
       messages: [
-        {role: 'system', content: memoryRecallPrompt()},
+        {role: 'system', content: promptService.render('tools/memory.recall', state, state.config.conversation_uuid).content},
         {role: 'user', content: query}
       ],
       temperature: 0,
+      usage: trackUsage(stateManager, 'act'),
       user: {
         uuid: state.config.user_uuid ?? '',
         name: state.profile.user_name
@@ -366,7 +401,7 @@ export const memoryService = {
     return queries;
   },
 
-  async execute(action: string, payload: unknown): Promise<DocumentType> {
+  async execute(action: string, payload: unknown, span: LangfuseSpanClient | undefined, stateManager: StateManager): Promise<DocumentType> {
     const parsed = MemoryActionSchema.parse({ action, payload });
     const conversation_uuid = parsed.payload.conversation_uuid || 'default';
 
@@ -374,9 +409,12 @@ export const memoryService = {
     switch (parsed.action) {
       case 'recall': {
         const { query, filters, limit, conversation_uuid } = parsed.payload;
-        return this.recallMemories(query, limit, conversation_uuid, filters);
+        return this.recallMemories(query, limit, conversation_uuid, filters, stateManager);
       }
       case 'remember':
+        if (!isCategoryAllowed(stateManager, parsed.payload.category)) {
+          return categoryUnavailable(parsed.payload.category, conversation_uuid);
+        }
         return memoryService.createNewMemory(
           parsed.payload.name,
           parsed.payload.text,
@@ -384,7 +422,12 @@ export const memoryService = {
           parsed.payload.subcategory,
           parsed.payload.conversation_uuid
         );
-      case 'update':
+      case 'update': {
+        const memory = await memoryService.getMemoryByUuid(parsed.payload.memory_uuid);
+        const denied_category = await findDeniedCategory(stateManager, [memory?.category_uuid, parsed.payload.category_uuid]);
+        if (denied_category) {
+          return categoryUnavailable(denied_category, conversation_uuid);
+        }
         return memoryService.updateExistingMemory(
           parsed.payload.memory_uuid,
           parsed.payload.name,
@@ -392,8 +435,15 @@ export const memoryService = {
           parsed.payload.text,
           parsed.payload.conversation_uuid
         );
-      case 'forget':
+      }
+      case 'forget': {
+        const memory = await memoryService.getMemoryByUuid(parsed.payload.memory_uuid);
+        const denied_category = await findDeniedCategory(stateManager, [memory?.category_uuid]);
+        if (denied_category) {
+          return categoryUnavailable(denied_category, conversation_uuid);
+        }
         return memoryService.deleteExistingMemory(parsed.payload.memory_uuid, parsed.payload.conversation_uuid);
+      }
       default:
         return documentService.createErrorDocument({
           error: new Error(`Unknown memory action: ${action}`),
@@ -421,13 +471,13 @@ export const memoryService = {
     return memory;
   },
 
-  async getRecentMemoriesContext(span?: LangfuseSpanClient): Promise<DocumentType> {
+  async getRecentMemoriesContext(stateManager: StateManager, span?: LangfuseSpanClient): Promise<DocumentType> {
     const state = stateManager.getState();
     const today = new Date();
 
     try {
         // Get all categories from memory config
-        const category_queries = memory_categories.map(category => ({
+        const category_queries = memory_categories.filter(category => isCategoryAllowed(stateManager, category.name)).map(category => ({
             category: category.name,
             subcategory: category.subcategory
         }));
@@ -2,7 +2,7 @@ import db from '../../database/db';
 import {messages, type NewMessage} from '../../schema/message';
 import {v4 as uuidv4} from 'uuid';
 import {CoreMessage} from 'ai';
-import {eq} from 'drizzle-orm';
+import {and, desc, eq} from 'drizzle-orm';
 
 interface CreateMessageParams {
   conversation_uuid: string;
@@ -35,6 +35,17 @@ export const messageService = {
     }
   },
 
+  findLastUserMessage: async (conversation_uuid: string) => {
+    const [message] = await db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.conversation_uuid, conversation_uuid), eq(messages.role, 'user')))
+      .orderBy(desc(messages.created_at), desc(messages.id))
+      .limit(1);
+
+    return message;
+  },
+
   findByConversationId: async (conversation_uuid: string): Promise<CoreMessage[]> => {
     try {
       const conversation_messages = await db.select().from(messages).where(eq(messages.conversation_uuid, conversation_uuid)).orderBy(messages.created_at);
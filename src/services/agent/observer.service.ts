@@ -1,6 +1,6 @@
 import {Langfuse, LangfuseTraceClient, LangfuseSpanClient, LangfuseGenerationClient} from 'langfuse';
 import {z} from 'zod';
-import {stateManager} from './state.service';
+import type {State} from '../../types/state';
 import {v4 as uuidv4} from 'uuid';
 import {CoreMessage} from 'ai';
 
@@ -10,13 +10,15 @@ const GenerationInputSchema = z.object({
   output: z.unknown().optional(),
   metadata: z.record(z.unknown()).optional(),
   level: z.enum(['DEBUG', 'DEFAULT', 'WARNING', 'ERROR']).optional(),
-  statusMessage: z.string().optional()
+  statusMessage: z.string().optional(),
+  model: z.string().optional(),
+  version: z.string().optional()
 });
 
 type GenerationInput = z.infer<typeof GenerationInputSchema>;
 
 interface ObserverService {
-  trace: LangfuseTraceClient | null;
+  activeTraces: Map<string, LangfuseTraceClient>;
   activeSpans: Map<string, LangfuseSpanClient>;
   activeGenerations: Map<string, LangfuseGenerationClient>;
 }
@@ -26,7 +28,9 @@ const createObserver = () => {
     secretKey: process.env.LANGFUSE_SECRET_KEY,
     publicKey: process.env.LANGFUSE_PUBLIC_KEY,
     baseUrl: process.env.LANGFUSE_HOST,
-    requestTimeout: 10000
+    requestTimeout: 10000,
+    // Without keys (e.g. when replaying fixtures offline) traces are built but never sent
+    enabled: Boolean(process.env.LANGFUSE_SECRET_KEY && process.env.LANGFUSE_PUBLIC_KEY)
   });
 
   langfuse.on('error', (error: Error) => {
@@ -34,16 +38,14 @@ const createObserver = () => {
   });
 
   const observer: ObserverService = {
-    trace: null,
+    activeTraces: new Map(),
     activeSpans: new Map(),
     activeGenerations: new Map()
   };
 
   return {
-    initializeTrace: async (name: string) => {
-      const state = stateManager.getState();
-
-      observer.trace = langfuse.trace({
+    initializeTrace: async (name: string, state: State) => {
+      const trace = langfuse.trace({
         id: uuidv4(),
         name,
         userId: state.config.user_uuid,
@@ -57,21 +59,23 @@ const createObserver = () => {
       // Wait for trace to be ready
       await new Promise(resolve => setTimeout(resolve, 100));
       
-      if (!observer.trace) {
+      if (!trace) {
         throw new Error('Failed to initialize trace');
       }
 
-      return observer.trace;
+      observer.activeTraces.set(trace.id, trace);
+      return trace;
     },
 
-    startSpan: (name: string, metadata?: Record<string, unknown>) => {
-      if (!observer.trace) throw new Error('Trace not initialized');
+    startSpan: (traceId: string, name: string, state: State, metadata?: Record<string, unknown>) => {
+      const trace = observer.activeTraces.get(traceId);
+      if (!trace) throw new Error(`Trace with id ${traceId} not found`);
 
-      const span = observer.trace.span({
+      const span = trace.span({
         name,
         metadata: {
           ...metadata,
-          ...stateManager.getState().config,
+          ...state.config,
           timestamp: new Date().toISOString()
         }
       });
@@ -88,23 +92,24 @@ const createObserver = () => {
       observer.activeSpans.delete(spanId);
     },
 
-    startGeneration: (params: GenerationInput, parentId?: string) => {
-      if (!observer.trace) throw new Error('Trace not initialized');
+    startGeneration: (traceId: string, params: GenerationInput, parentId?: string) => {
+      const trace = observer.activeTraces.get(traceId);
+      if (!trace) throw new Error(`Trace with id ${traceId} not found`);
 
       const parentSpan = parentId ? observer.activeSpans.get(parentId) : null;
       if (!parentSpan && parentId) {
         throw new Error(`Parent span with id ${parentId} not found`);
       }
 
-      const state = stateManager.getState();
       const validated = GenerationInputSchema.parse(params);
 
-      const generation = (parentSpan || observer.trace).generation({
+      const generation = (parentSpan || trace).generation({
         name: validated.name,
         input: validated.input,
-        model: state.config.model,
+        model: validated.model,
         output: validated.output,
         metadata: validated.metadata,
+        version: validated.version,
         level: validated.level,
         statusMessage: validated.statusMessage
       });
@@ -121,7 +126,7 @@ const createObserver = () => {
       observer.activeGenerations.delete(generationId);
     },
 
-    recordEvent: (name: string, data?: Record<string, unknown>, parentId?: string) => {
+    recordEvent: (traceId: string, name: string, data?: Record<string, unknown>, parentId?: string) => {
       let parent: LangfuseTraceClient | LangfuseSpanClient;
 
       if (parentId) {
@@ -129,8 +134,9 @@ const createObserver = () => {
         if (!parentSpan) throw new Error(`Parent span with id ${parentId} not found`);
         parent = parentSpan;
       } else {
-        if (!observer.trace) throw new Error('Trace not initialized');
-        parent = observer.trace;
+        const trace = observer.activeTraces.get(traceId);
+        if (!trace) throw new Error(`Trace with id ${traceId} not found`);
+        parent = trace;
       }
 
       return parent.event({
@@ -139,19 +145,20 @@ const createObserver = () => {
       });
     },
 
-    finalizeTrace: async (traceId: string, messages: CoreMessage[], completions: unknown[]) => {
-      if (!observer.trace) throw new Error('Trace not initialized');
+    finalizeTrace: async (traceId: string, messages: CoreMessage[], completions: unknown[], state: State) => {
+      const trace = observer.activeTraces.get(traceId);
+      if (!trace) throw new Error(`Trace with id ${traceId} not found`);
 
-      await observer.trace.update({
+      await trace.update({
         input: messages,
         output: completions,
         metadata: {
-          ...stateManager.getState().config,
+          ...state.config,
           completed_at: new Date().toISOString()
         }
       });
 
-      observer.trace = null;
+      observer.activeTraces.delete(traceId);
     },
 
     async shutdown() {
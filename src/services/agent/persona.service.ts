@@ -0,0 +1,115 @@
+import db from '../../database/db';
+import {and, eq} from 'drizzle-orm';
+import {v4 as uuidv4} from 'uuid';
+import {personas, users, type NewPersona, type Persona} from '../../schema';
+import {registeredTools} from './tool.registration.service';
+import {providers} from '../../config/llm.config';
+import {memory_categories} from '../../config/memory.config';
+import {NotFoundError, ValidationError} from '../../utils/errors';
+
+export type PersonaInput = Pick<NewPersona, 'name' | 'instructions' | 'tools' | 'model' | 'alt_model' | 'memory_categories'>;
+
+// Tools, models and categories are checked against what's configured now, so a persona never silently loses part of its setup
+const validate = (input: Partial<PersonaInput>) => {
+  const tool_names = new Set(registeredTools.map(tool => tool.name));
+  const unknown_tools = (input.tools ?? []).filter(name => !tool_names.has(name));
+  if (unknown_tools.length > 0) {
+    throw new ValidationError(`Unknown tools: ${unknown_tools.join(', ')}`);
+  }
+
+  const models = new Set(Object.values(providers).flatMap(models => Object.keys(models)));
+  const unknown_models = [input.model, input.alt_model].filter((model): model is string => !!model && !models.has(model));
+  if (unknown_models.length > 0) {
+    throw new ValidationError(`Unknown models: ${unknown_models.join(', ')}`);
+  }
+
+  const category_names = new Set(memory_categories.map(category => category.name));
+  const unknown_categories = (input.memory_categories ?? []).filter(name => !category_names.has(name));
+  if (unknown_categories.length > 0) {
+    throw new ValidationError(`Unknown memory categories: ${unknown_categories.join(', ')}`);
+  }
+};
+
+export const personaService = {
+  findByUser: async (user_uuid: string): Promise<Persona[]> => db.select().from(personas).where(eq(personas.user_uuid, user_uuid)),
+
+  findByUuid: async (uuid: string, user_uuid: string): Promise<Persona | undefined> => {
+    const [persona] = await db
+      .select()
+      .from(personas)
+      .where(and(eq(personas.uuid, uuid), eq(personas.user_uuid, user_uuid)))
+      .limit(1);
+
+    return persona;
+  },
+
+  create: async (user_uuid: string, input: PersonaInput): Promise<Persona> => {
+    validate(input);
+
+    const [persona] = await db
+      .insert(personas)
+      .values({...input, uuid: uuidv4(), user_uuid})
+      .returning();
+
+    return persona;
+  },
+
+  update: async (uuid: string, user_uuid: string, input: Partial<PersonaInput>): Promise<Persona> => {
+    validate(input);
+
+    const [persona] = await db
+      .update(personas)
+      .set({...input, updated_at: new Date().toISOString()})
+      .where(and(eq(personas.uuid, uuid), eq(personas.user_uuid, user_uuid)))
+      .returning();
+
+    if (!persona) {
+      throw new NotFoundError('Persona');
+    }
+
+    return persona;
+  },
+
+  delete: async (uuid: string, user_uuid: string): Promise<void> => {
+    const persona = await personaService.findByUuid(uuid, user_uuid);
+    if (!persona) {
+      throw new NotFoundError('Persona');
+    }
+
+    await db.transaction(async tx => {
+      await tx
+        .update(users)
+        .set({defaultPersonaUuid: null, updatedAt: new Date()})
+        .where(and(eq(users.uuid, user_uuid), eq(users.defaultPersonaUuid, uuid)));
+      await tx.delete(personas).where(eq(personas.uuid, uuid));
+    });
+  },
+
+  setDefault: async (user_uuid: string, persona_uuid: string | null): Promise<void> => {
+    if (persona_uuid && !(await personaService.findByUuid(persona_uuid, user_uuid))) {
+      throw new NotFoundError('Persona');
+    }
+
+    await db.update(users).set({defaultPersonaUuid: persona_uuid, updatedAt: new Date()}).where(eq(users.uuid, user_uuid));
+  },
+
+  // The persona a chat request runs as: the one it asked for, otherwise the user's default, otherwise none
+  resolve: async (user_uuid: string, persona_uuid?: string): Promise<Persona | null> => {
+    if (persona_uuid) {
+      const persona = await personaService.findByUuid(persona_uuid, user_uuid);
+      if (!persona) {
+        throw new NotFoundError('Persona', {context: {persona_uuid}});
+      }
+      return persona;
+    }
+
+    const [row] = await db
+      .select({persona: personas})
+      .from(users)
+      .innerJoin(personas, eq(users.defaultPersonaUuid, personas.uuid))
+      .where(eq(users.uuid, user_uuid))
+      .limit(1);
+
+    return row?.persona ?? null;
+  }
+};
@@ -0,0 +1,170 @@
+import db from '../../database/db';
+import {and, desc, eq, gt, inArray, isNotNull} from 'drizzle-orm';
+import {v4 as uuidv4} from 'uuid';
+import {createHash} from 'crypto';
+import {promptVersions, type PromptVersion} from '../../schema';
+import {default_prompts, isPromptName, type PromptArgs, type PromptName} from '../../prompts/registry';
+import {NotFoundError, ValidationError} from '../../utils/errors';
+
+export interface RenderedPrompt {
+  name: PromptName;
+  version: string; // 'default' or 'v<number>'
+  content: string;
+}
+
+interface TrafficAllocation {
+  version_uuid: string;
+  traffic: number;
+}
+
+// Versions with traffic, by prompt name; prompts are rendered synchronously, so overrides are served from memory
+// and reloaded after every change made through this service
+let live_versions = new Map<string, PromptVersion[]>();
+
+const readPath = (args: unknown, path: string): unknown =>
+  path.split('.').reduce<unknown>((value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined), args);
+
+const fillTemplate = <N extends PromptName>(template: string, name: N, args: PromptArgs<N>) =>
+  template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => {
+    if (path === 'default') {
+      return (default_prompts[name] as (args: PromptArgs<N>) => string)(args);
+    }
+
+    const value = readPath(args, path);
+    return value === undefined || value === null ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+  });
+
+// A conversation always lands in the same bucket of a prompt, so it keeps its version across turns
+const bucketOf = (name: string, conversation_uuid?: string | null) =>
+  conversation_uuid ? parseInt(createHash('sha1').update(`${name}:${conversation_uuid}`).digest('hex').slice(0, 8), 16) % 100 : Math.floor(Math.random() * 100);
+
+const assignVersion = (name: PromptName, conversation_uuid?: string | null): PromptVersion | null => {
+  const bucket = bucketOf(name, conversation_uuid);
+  let threshold = 0;
+
+  for (const version of live_versions.get(name) ?? []) {
+    threshold += version.traffic;
+    if (bucket < threshold) {
+      return version;
+    }
+  }
+
+  return null;
+};
+
+const findVersion = async (uuid: string) => {
+  const [version] = await db.select().from(promptVersions).where(eq(promptVersions.uuid, uuid)).limit(1);
+  if (!version) {
+    throw new NotFoundError('Prompt version', {context: {uuid}});
+  }
+  return version;
+};
+
+export const promptService = {
+  load: async () => {
+    const versions = await db.select().from(promptVersions).where(gt(promptVersions.traffic, 0)).orderBy(promptVersions.version);
+
+    live_versions = versions.reduce((by_name, version) => by_name.set(version.name, [...(by_name.get(version.name) ?? []), version]), new Map<string, PromptVersion[]>());
+    console.log(`[Prompts] ${versions.length} prompt version(s) with traffic loaded`);
+  },
+
+  // Renders the version assigned to the conversation, falling back to the code default
+  render: <N extends PromptName>(name: N, args: PromptArgs<N>, conversation_uuid?: string | null): RenderedPrompt => {
+    const version = assignVersion(name, conversation_uuid);
+
+    return version
+      ? {name, version: `v${version.version}`, content: fillTemplate(version.template, name, args)}
+      : {name, version: 'default', content: (default_prompts[name] as (args: PromptArgs<N>) => string)(args)};
+  },
+
+  // Generation fields that let Langfuse group and compare completions by prompt version
+  observe: (prompt: RenderedPrompt) => ({
+    version: `${prompt.name}@${prompt.version}`,
+    metadata: {prompt: prompt.name, prompt_version: prompt.version}
+  }),
+
+  list: async (name?: string): Promise<PromptVersion[]> =>
+    db
+      .select()
+      .from(promptVersions)
+      .where(name ? eq(promptVersions.name, name) : undefined)
+      .orderBy(promptVersions.name, desc(promptVersions.version)),
+
+  create: async ({name, template, description, created_by}: {name: string; template: string; description?: string; created_by: string}): Promise<PromptVersion> => {
+    if (!isPromptName(name)) {
+      throw new ValidationError(`Unknown prompt: ${name}`);
+    }
+
+    const [latest] = await db.select().from(promptVersions).where(eq(promptVersions.name, name)).orderBy(desc(promptVersions.version)).limit(1);
+
+    const [version] = await db
+      .insert(promptVersions)
+      .values({uuid: uuidv4(), name, version: (latest?.version ?? 0) + 1, template, description, created_by})
+      .returning();
+
+    return version;
+  },
+
+  // Serves the version to every conversation
+  activate: async (uuid: string): Promise<PromptVersion> => {
+    const version = await findVersion(uuid);
+    await promptService.allocate(version.name, [{version_uuid: uuid, traffic: 100}]);
+    return findVersion(uuid);
+  },
+
+  // Splits conversations between versions by percentage; whatever is left over gets the code default
+  allocate: async (name: string, allocations: TrafficAllocation[]): Promise<void> => {
+    const total = allocations.reduce((sum, allocation) => sum + allocation.traffic, 0);
+    if (total > 100) {
+      throw new ValidationError(`Traffic adds up to ${total}%, which is more than 100%`);
+    }
+
+    const uuids = allocations.map(allocation => allocation.version_uuid);
+    const versions = uuids.length > 0 ? await db.select().from(promptVersions).where(inArray(promptVersions.uuid, uuids)) : [];
+    if (versions.length !== new Set(uuids).size || versions.some(version => version.name !== name)) {
+      throw new ValidationError(`Every version must exist and belong to ${name}`);
+    }
+
+    const now = new Date().toISOString();
+    await db.transaction(async tx => {
+      await tx.update(promptVersions).set({traffic: 0, updated_at: now}).where(eq(promptVersions.name, name));
+
+      for (const {version_uuid, traffic} of allocations) {
+        await tx
+          .update(promptVersions)
+          .set({traffic, updated_at: now, ...(traffic > 0 && {activated_at: now})})
+          .where(eq(promptVersions.uuid, version_uuid));
+      }
+    });
+
+    await promptService.load();
+  },
+
+  // Takes the most recently activated version out of service and gives all traffic back to the one activated
+  // before it, or to the code default when there's none
+  rollback: async (name: string): Promise<PromptVersion | null> => {
+    const [current, previous] = await db
+      .select()
+      .from(promptVersions)
+      .where(and(eq(promptVersions.name, name), isNotNull(promptVersions.activated_at)))
+      .orderBy(desc(promptVersions.activated_at))
+      .limit(2);
+
+    if (!current) {
+      throw new ValidationError(`${name} already uses its code default`);
+    }
+
+    const now = new Date().toISOString();
+    await db.transaction(async tx => {
+      await tx.update(promptVersions).set({traffic: 0, updated_at: now}).where(eq(promptVersions.name, name));
+      await tx.update(promptVersions).set({activated_at: null, updated_at: now}).where(eq(promptVersions.uuid, current.uuid));
+
+      if (previous) {
+        await tx.update(promptVersions).set({traffic: 100, updated_at: now}).where(eq(promptVersions.uuid, previous.uuid));
+      }
+    });
+
+    await promptService.load();
+    return previous ? findVersion(previous.uuid) : null;
+  }
+};
@@ -1,6 +1,9 @@
 import {z} from 'zod';
 import {type State} from '../../types/state';
+import type {ProgressEvent} from '../../types/agent';
 import {EventEmitter} from 'events';
+import {default_locale, default_timezone} from '../../config/locale.config';
+import {formatLocalTime} from '../../utils/time';
 
 // State validation schemas
 const ConfigSchema = z.object({
@@ -12,10 +15,18 @@ const ConfigSchema = z.object({
   current_action: z.object({uuid: z.string(), name: z.string()}).nullable(),
   user_uuid: z.string().nullable(),
   conversation_uuid: z.string().nullable(),
+  message_uuid: z.string().nullable(),
+  usage: z.object({tokens: z.number(), cost: z.number()}),
+  budget: z.object({tokens: z.number().nullable(), cost: z.number().nullable()}),
+  tool_mode: z.enum(['prompt', 'function_calling']),
+  loop_warning: z.string().nullable(),
   model: z.string(),
+  alt_model: z.string().nullable(),
   temperature: z.number(),
   max_tokens: z.number(),
   fast_track: z.boolean(),
+  timezone: z.string(),
+  locale: z.string(),
   time: z.string()
 });
 
@@ -31,7 +42,10 @@ const StateSchema = z.object({
     environment: z.record(z.any()),
     context: z.string(),
     ai_name: z.string(),
-    user_name: z.string()
+    user_name: z.string(),
+    persona_uuid: z.string().nullable(),
+    instructions: z.string().nullable(),
+    memory_categories: z.array(z.string()).nullable()
   }),
   interaction: z.object({
     tasks: z.array(z.any()),
@@ -51,12 +65,12 @@ interface StateUpdate {
   timestamp: string;
 }
 
-const createStateManager = () => {
+export const createStateManager = (initial_state?: State) => {
   const events = new EventEmitter();
   const history: StateUpdate[] = [];
 
   // Make state readonly to prevent direct mutations
-  let state: Readonly<State> = {
+  let state: Readonly<State> = initial_state ? Object.freeze(structuredClone(initial_state)) : {
     config: {
       fast_track: false,
       step: 0,
@@ -67,11 +81,18 @@ const createStateManager = () => {
       current_action: null,
       user_uuid: null,
       conversation_uuid: null,
+      message_uuid: null,
+      usage: {tokens: 0, cost: 0},
+      budget: {tokens: null, cost: null},
+      tool_mode: 'prompt',
+      loop_warning: null,
       model: 'gpt-4.1',
       alt_model: 'gpt-4.1-mini',
       temperature: 0.7,
       max_tokens: 16384,
-      time: new Date().toISOString()
+      timezone: default_timezone,
+      locale: default_locale,
+      time: formatLocalTime(new Date(), default_timezone)
     },
     thoughts: {
       environment: '',
@@ -83,7 +104,10 @@ const createStateManager = () => {
       environment: {},
       context: '',
       ai_name: '',
-      user_name: ''
+      user_name: '',
+      persona_uuid: null,
+      instructions: null,
+      memory_categories: null
     },
     interaction: {
       tasks: [],
@@ -178,6 +202,16 @@ const createStateManager = () => {
       }
     },
 
+    // Progress events only describe what the loop is doing, they never change the state
+    emitProgress: (event: ProgressEvent) => {
+      events.emit('progress', {...event, timestamp: new Date().toISOString()});
+    },
+
+    onProgress: (callback: (event: ProgressEvent & {timestamp: string}) => void) => {
+      events.on('progress', callback);
+      return () => events.off('progress', callback);
+    },
+
     updateConfig: (config: Partial<State['config']>) => updateState(['config'], {...structuredClone(state.config), ...config}),
 
     updateThoughts: updateThoughts,
@@ -190,4 +224,13 @@ const createStateManager = () => {
   };
 };
 
-export const stateManager = createStateManager();
+// Each agent run gets its own state manager so concurrent conversations never share config, thoughts or tasks
+export type StateManager = ReturnType<typeof createStateManager>;
+
+// A copy of the run's state for work done alongside the main loop; its progress events are reported through the parent
+export const forkStateManager = (stateManager: StateManager): StateManager => {
+  const fork = createStateManager(stateManager.getState());
+  fork.onProgress(event => stateManager.emitProgress(event));
+
+  return fork;
+};
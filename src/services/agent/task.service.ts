@@ -7,12 +7,14 @@ import type {Action, AgentThoughts} from '../../types/agent';
 import {actions} from '../../schema/action';
 import {actionDocuments} from '../../schema/actionDocuments';
 import {documents} from '../../schema/document';
+import {conversations} from '../../schema/conversation';
 
 const taskSchema = z.object({
   name: z.string(),
   description: z.string(),
   status: z.enum(['pending', 'completed']),
-  uuid: z.string().nullable()
+  uuid: z.string().nullable(),
+  depends_on: z.array(z.string()).default([])
 });
 
 // Add this interface to match the database schema
@@ -26,6 +28,7 @@ interface TaskRecord {
   scheduled_for?: string | null;
   completed_at?: string | null;
   result?: string | null;
+  depends_on?: string[] | null;
 }
 
 interface ActionRecord {
@@ -34,6 +37,7 @@ interface ActionRecord {
   task_uuid: string;
   tool_uuid: string;
   name: string;
+  tool_action: string | null;
   status: string | null;
   sequence: number | null;
   payload: unknown;
@@ -47,6 +51,7 @@ const mapActionRecordToAction = (record: ActionRecord): Action => ({
   task_uuid: record.task_uuid,
   tool_uuid: record.tool_uuid,
   name: record.name,
+  tool_action: record.tool_action,
   status: record.status as Action['status'],
   sequence: record.sequence ?? 0,
   payload: record.payload ? JSON.parse(record.payload as string) : null,
@@ -62,6 +67,7 @@ const mapTaskRecordToTask = (record: TaskRecord) => ({
   scheduled_for: record.scheduled_for,
   completed_at: record.completed_at,
   result: record.result,
+  depends_on: record.depends_on ?? [],
   actions: [] as Action[]
 });
 
@@ -133,14 +139,26 @@ export const taskService = {
 
     const completed_uuids = new Set(current_tasks.filter(task => task.status === 'completed').map(task => task.uuid));
 
+    // Dependencies come as task names, since new tasks don't have a uuid until they're stored
+    const new_task_records = new_tasks.map(task => ({...task, uuid: uuidv4()}));
+    const task_uuids = new Map([
+      ...current_tasks.map(task => [task.name, task.uuid] as const),
+      ...existing_tasks.map(task => [task.name, task.uuid!] as const),
+      ...new_task_records.map(task => [task.name, task.uuid] as const)
+    ]);
+    const resolveDependencies = (task: z.infer<typeof taskSchema>) => [
+      ...new Set(task.depends_on.filter(name => name !== task.name).flatMap(name => task_uuids.get(name) ?? []))
+    ];
+
     // Insert new tasks
-    const tasks_to_insert = new_tasks.map(task => ({
-      uuid: uuidv4(),
+    const tasks_to_insert = new_task_records.map(task => ({
+      uuid: task.uuid,
       conversation_uuid,
       name: task.name,
       type: task.name === 'final_answer' ? 'final' : 'regular',
       status: task.status,
-      description: task.description
+      description: task.description,
+      depends_on: resolveDependencies(task)
     }));
 
     // Update existing pending tasks
@@ -152,7 +170,8 @@ export const taskService = {
         name: task.name,
         type: task.name === 'final_answer' ? 'final' : 'regular',
         status: task.status,
-        description: task.description
+        description: task.description,
+        depends_on: resolveDependencies(task)
       }));
 
     await Promise.all([
@@ -165,6 +184,7 @@ export const taskService = {
             type: task.type,
             status: task.status,
             description: task.description,
+            depends_on: task.depends_on,
             updated_at: new Date().toISOString()
           })
           .where(and(eq(tasks.uuid, task.uuid), eq(tasks.status, 'pending')))
@@ -193,6 +213,21 @@ export const taskService = {
     return updated_task[0];
   },
   findByConversationId,
+  findPendingByUserId: async (user_uuid: string) => {
+    return db
+      .select({
+        uuid: tasks.uuid,
+        name: tasks.name,
+        description: tasks.description,
+        conversation_uuid: tasks.conversation_uuid,
+        conversation_name: conversations.name,
+        updated_at: tasks.updated_at
+      })
+      .from(tasks)
+      .innerJoin(conversations, eq(tasks.conversation_uuid, conversations.uuid))
+      .where(and(eq(conversations.user_id, user_uuid), eq(tasks.status, 'pending')))
+      .orderBy(tasks.created_at);
+  },
   updateTaskResult: async (task_uuid: string, result: string) => {
     if (!task_uuid) {
       throw new Error('Task UUID is required');
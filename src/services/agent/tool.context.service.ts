@@ -0,0 +1,107 @@
+import type {LangfuseSpanClient} from 'langfuse';
+import type {ToolContextProvider} from '../../config/tools.config';
+import type {StateManager} from './state.service';
+import type {DocumentType} from './document.service';
+import {createTokenizer} from '../common/text.service';
+import {fixtureService} from '../common/fixture.service';
+
+const tokenizer = await createTokenizer('gpt-4o');
+
+const providers = new Map<string, ToolContextProvider[]>();
+const cache = new Map<string, {document: DocumentType | null; expires_at: number}>();
+
+// Keeps whole lines, so a truncated list of tasks or events never ends mid-entry
+const truncate = (document: DocumentType, max_tokens?: number): DocumentType => {
+  if (!max_tokens || tokenizer.countTokens(document.text) <= max_tokens) {
+    return document;
+  }
+
+  const kept: string[] = [];
+  let tokens = 0;
+
+  for (const line of document.text.split('\n')) {
+    const line_tokens = tokenizer.countTokens(`${line}\n`);
+    if (tokens + line_tokens > max_tokens) {
+      break;
+    }
+    kept.push(line);
+    tokens += line_tokens;
+  }
+
+  return {
+    ...document,
+    text: `${kept.join('\n')}\n[truncated to ${max_tokens} tokens]`,
+    metadata: {...document.metadata, tokens}
+  };
+};
+
+// Provider output goes through the run's fixture like any other tool result, so replays don't call the tool's API
+const load = async (tool_name: string, provider: ToolContextProvider, stateManager: StateManager, span?: LangfuseSpanClient) => {
+  const payload = {conversation_uuid: stateManager.getState().config.conversation_uuid};
+  const action = `context:${provider.name}`;
+
+  if (fixtureService.isReplaying()) {
+    return fixtureService.replayToolCall(tool_name, action, payload) as DocumentType | null;
+  }
+
+  const document = await provider.getContext(stateManager, span);
+  fixtureService.recordToolCall(tool_name, action, payload, {result: document});
+
+  return document;
+};
+
+export const toolContextService = {
+  register: (tool_name: string, ...tool_providers: ToolContextProvider[]) => {
+    const registered = providers.get(tool_name) ?? [];
+    const names = new Set(tool_providers.map(provider => provider.name));
+
+    providers.set(tool_name, [...registered.filter(provider => !names.has(provider.name)), ...tool_providers]);
+  },
+
+  getContext: async (tool_name: string, stateManager: StateManager, span?: LangfuseSpanClient): Promise<DocumentType[]> => {
+    const {user_uuid} = stateManager.getState().config;
+
+    const documents = await Promise.all(
+      (providers.get(tool_name) ?? []).map(async provider => {
+        const key = `${tool_name}:${provider.name}:${user_uuid ?? 'anonymous'}`;
+        const cached = cache.get(key);
+
+        if (cached && cached.expires_at > Date.now()) {
+          return cached.document;
+        }
+
+        try {
+          const document = await load(tool_name, provider, stateManager, span);
+          const truncated = document && truncate(document, provider.max_tokens);
+
+          if (provider.ttl_ms) {
+            cache.set(key, {document: truncated, expires_at: Date.now() + provider.ttl_ms});
+          }
+
+          return truncated;
+        } catch (error) {
+          // Missing context makes the payload less informed, but shouldn't stop the tool from being used
+          console.error(`[ToolContext] Provider ${tool_name}/${provider.name} failed:`, error);
+          span?.event({
+            name: 'tool_context_failed',
+            level: 'WARNING',
+            statusMessage: error instanceof Error ? error.message : String(error),
+            metadata: {tool: tool_name, provider: provider.name}
+          });
+          return null;
+        }
+      })
+    );
+
+    return documents.filter((document): document is DocumentType => document !== null);
+  },
+
+  // Called after the tool runs, since whatever it did (a new task, a moved event) makes the cached context stale
+  invalidate: (tool_name: string) => {
+    for (const key of cache.keys()) {
+      if (key.startsWith(`${tool_name}:`)) {
+        cache.delete(key);
+      }
+    }
+  }
+};
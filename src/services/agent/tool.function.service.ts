@@ -0,0 +1,56 @@
+import {jsonSchema, tool as defineTool, type CoreTool} from 'ai';
+import {z} from 'zod';
+import type {Tool, ToolUsePayload} from '../../types/agent';
+
+export interface ToolFunctions {
+  definitions: Record<string, CoreTool>;
+  resolve: (function_name: string) => Tool | undefined;
+}
+
+// Function names may only contain letters, digits, "_" and "-", while MCP tools are named "<server>/<tool>"
+const functionName = (tool: Tool) => tool.name.replace(/[^a-zA-Z0-9_-]/g, '__');
+
+// Native tools take several actions described in their instruction, so the model fills in the action next to its payload
+const nativeParameters = z.object({
+  action: z.string().describe('Name of the action, as listed in the instruction of the tool'),
+  payload: z.record(z.unknown()).describe('Payload of the action, in the format the instruction of the tool describes')
+});
+
+const defineFunction = (tool: Tool): CoreTool => {
+  // Calling final_answer only ends the loop, the answer itself is written afterwards
+  if (tool.name === 'final_answer') {
+    return defineTool({
+      description: 'Call when the current task is about answering the user, or when everything the user asked for was done',
+      parameters: z.object({})
+    });
+  }
+
+  if (tool.input_schema) {
+    return defineTool({
+      description: tool.description ?? tool.name,
+      parameters: jsonSchema<Record<string, unknown>>(tool.input_schema)
+    });
+  }
+
+  return defineTool({
+    description: [tool.description, tool.instruction].filter(Boolean).join('\n\n'),
+    parameters: nativeParameters
+  });
+};
+
+export const toolFunctionService = {
+  define: (tools: Tool[]): ToolFunctions => {
+    const by_function_name = new Map(tools.map(tool => [functionName(tool), tool]));
+
+    return {
+      definitions: Object.fromEntries([...by_function_name].map(([name, tool]) => [name, defineFunction(tool)])),
+      resolve: function_name => by_function_name.get(function_name)
+    };
+  },
+
+  // MCP tools run the tool the model called as their action; native tools get the action the model picked
+  toPayload: (tool: Tool, args: Record<string, unknown>): ToolUsePayload =>
+    tool.input_schema
+      ? {action: tool.name.split('/').pop() ?? tool.name, payload: args}
+      : {action: String(args.action ?? ''), payload: (args.payload as Record<string, unknown>) ?? {}}
+};
@@ -1,26 +1,39 @@
 import { mcpServerRegistry, McpServerConfig } from '../../config/mcp-servers.config';
 import { mcpClientService, McpToolDefinition } from '../mcp/mcp.client';
-import { stateManager } from '../agent/state.service';
-import { toolsMap as nativeToolsMapConfig, ToolService } from '../../config/tools.config'; // Renamed to avoid conflict
+import { toolsMap as nativeToolsMapConfig, toolContextProviders, ToolContextProvider, ToolService } from '../../config/tools.config'; // Renamed to avoid conflict
 import { toolService as dbToolService } from '../agent/tool.service'; // Import the DB tool service
 import type { Tool } from '../../types/agent'; // Agent's internal Tool type
 import { LangfuseSpanClient, LangfuseTraceClient } from 'langfuse';
 import { v4 as uuidv4 } from 'uuid';
+import { fixtureService, type Fixture } from '../common/fixture.service';
+import { toolContextService } from './tool.context.service';
+import { documentService } from './document.service';
 
 // This will combine native tools and dynamically loaded MCP tools
 export const activeToolsMap: Record<string, ToolService> = { /* Will be populated dynamically */ };
 
+// Tool definitions copied into every new agent state by setInteractionState
+export const registeredTools: Tool[] = [];
+
+// Every executor reports its results to fixtureService, which keeps them only while a run is being recorded
+const withRecording = (toolName: string, service: ToolService): ToolService => ({
+  execute: async (action, payload, span, stateManager) => {
+    try {
+      const result = await service.execute(action, payload, span, stateManager);
+      fixtureService.recordToolCall(toolName, action, payload, { result });
+      return result;
+    } catch (error) {
+      fixtureService.recordToolCall(toolName, action, payload, { error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+});
+
 class ToolRegistrationService {
   private isInitialized = false;
 
-  // Helper to convert MCP inputSchema (JSON Schema) to a string instruction for the LLM
-  private formatMcpInstruction(toolName: string, schema: Record<string, any>): string {
-    let instruction = `To use the '${toolName}' tool, provide the following parameters in the payload as a JSON object:\n`;
-    
-    let actualProperties = schema.properties;
-    let actualRequired = schema.required;
-
-    // Check for the specific problematic structure where the actual schema is nested under an "inputSchema" key.
+  // Some servers nest the actual schema under an "inputSchema" property; this returns the schema the arguments follow
+  private resolveMcpSchema(schema: Record<string, any>): Record<string, any> {
     if (
       schema.properties &&
       Object.keys(schema.properties).length === 1 &&
@@ -28,11 +41,20 @@ class ToolRegistrationService {
       typeof schema.properties.inputSchema === 'object' &&
       schema.properties.inputSchema.properties // Check if the nested inputSchema has its own properties
     ) {
-      const nestedSchema = schema.properties.inputSchema;
-      actualProperties = nestedSchema.properties;
-      actualRequired = nestedSchema.required || []; // Use required from nested schema if it exists, default to empty array
+      return {...schema.properties.inputSchema, required: schema.properties.inputSchema.required || []};
     }
 
+    return schema;
+  }
+
+  // Helper to convert MCP inputSchema (JSON Schema) to a string instruction for the LLM
+  private formatMcpInstruction(toolName: string, schema: Record<string, any>): string {
+    let instruction = `To use the '${toolName}' tool, provide the following parameters in the payload as a JSON object:\n`;
+    
+    const resolvedSchema = this.resolveMcpSchema(schema);
+    const actualProperties = resolvedSchema.properties;
+    const actualRequired = resolvedSchema.required;
+
     if (actualProperties && Object.keys(actualProperties).length > 0) {
       for (const [paramName, paramDetailsObj] of Object.entries(actualProperties)) {
         // Ensure paramDetailsObj is treated as an object, as it should be a JSON schema definition for a property
@@ -46,6 +68,36 @@ class ToolRegistrationService {
     return instruction;
   }
 
+  // Each configured resource of an MCP server becomes a context provider for the server's tools
+  private createMcpContextProviders(serverConfig: McpServerConfig): ToolContextProvider[] {
+    return (serverConfig.context_resources ?? []).map(resource => ({
+      name: resource.name,
+      ttl_ms: resource.ttl_ms,
+      max_tokens: resource.max_tokens,
+      getContext: async (stateManager, span) => {
+        const client = await mcpClientService.getClient(serverConfig, span);
+        const text = await mcpClientService.readResource(client, resource.uri, serverConfig.id, span);
+
+        if (!text) {
+          return null;
+        }
+
+        return documentService.createDocument({
+          conversation_uuid: stateManager.getState().config.conversation_uuid ?? 'unknown',
+          source_uuid: serverConfig.id,
+          text,
+          metadata_override: {
+            type: 'document',
+            content_type: 'full',
+            name: resource.name,
+            source: serverConfig.name,
+            description: `MCP resource ${resource.uri} from ${serverConfig.name}`
+          }
+        });
+      }
+    }));
+  }
+
   public async initializeTools(trace?: LangfuseTraceClient): Promise<void> {
     if (this.isInitialized) return;
 
@@ -64,7 +116,8 @@ class ToolRegistrationService {
         
         // Wire up the executor from the static config
         if (nativeToolsMapConfig[nativeTool.name]) {
-          activeToolsMap[nativeTool.name] = nativeToolsMapConfig[nativeTool.name];
+          activeToolsMap[nativeTool.name] = withRecording(nativeTool.name, nativeToolsMapConfig[nativeTool.name]);
+          toolContextService.register(nativeTool.name, ...(toolContextProviders[nativeTool.name] ?? []));
           console.log(`[ToolRegistrationService] Native tool '${nativeTool.name}' registered with its service.`);
         } else {
           console.warn(`[ToolRegistrationService] Service for native tool '${nativeTool.name}' not found in nativeToolsMapConfig.`);
@@ -100,6 +153,7 @@ class ToolRegistrationService {
             name: toolKey, // e.g., "calculator_mcp_v1/add"
             description: mcpTool.description || `MCP tool ${mcpTool.name} from ${serverConfig.name}`,
             instruction: this.formatMcpInstruction(mcpTool.name, mcpTool.inputSchema),
+            input_schema: this.resolveMcpSchema(mcpTool.inputSchema),
             // category: 'mcp', // Optional
             // mcp_details: { // Store extra info if needed
             //   server_id: serverConfig.id,
@@ -109,7 +163,7 @@ class ToolRegistrationService {
           });
 
           // Add to our combined toolsMap for execution
-          activeToolsMap[toolKey] = {
+          activeToolsMap[toolKey] = withRecording(toolKey, {
             execute: async (action: string, payload: Record<string, any>, execSpan?: LangfuseSpanClient) => {
               // Here, 'action' from ToolUsePayload should be the pure MCP tool name, e.g., "add"
               // The toolKey (current_tool.name) is "calculator_mcp_v1/add"
@@ -127,7 +181,8 @@ class ToolRegistrationService {
 
               return mcpClientService.callTool(mcpClientInstance, action, mcpToolPayload, serverConfig.id, execSpan);
             }
-          };
+          });
+          toolContextService.register(toolKey, ...this.createMcpContextProviders(serverConfig));
           console.log(`${serverLogPrefix} Tool '${toolKey}' added to activeToolsMap and loadedTools.`);
         }
         serverSpan?.end({ metadata: { success: true, tool_count: mcpTools.length } });
@@ -139,11 +194,34 @@ class ToolRegistrationService {
     }
     mcpToolsSpan?.end();
 
-    stateManager.updateSession({ tools: loadedTools });
+    registeredTools.push(...loadedTools);
     this.isInitialized = true;
     initSpan?.end();
     console.log('[ToolRegistrationService] All tools initialized. Total registered:', loadedTools.length, 'Tools:', loadedTools.map(t => t.name));
   }
+
+  // Replays register the tools the fixture was recorded with and serve their results from it,
+  // so neither the database tool list nor any MCP server is touched. The eval suite loads one fixture per scenario;
+  // a tool that is already registered keeps its executor, which serves results from whichever run calls it.
+  public initializeFromFixture(fixture: Fixture): void {
+    const registered = new Set(registeredTools.map(tool => tool.name));
+    const tools = fixture.tools.filter(tool => !registered.has(tool.name));
+
+    for (const tool of tools) {
+      activeToolsMap[tool.name] = {
+        execute: async (action: string, payload: Record<string, any>) => fixtureService.replayToolCall(tool.name, action, payload)
+      };
+    }
+
+    // Context providers are replayed as well; their recorded calls are named `context:<provider>`
+    for (const call of fixture.tool_calls.filter(call => call.action.startsWith('context:'))) {
+      toolContextService.register(call.tool, { name: call.action.slice('context:'.length), getContext: async () => null });
+    }
+
+    registeredTools.push(...tools);
+    this.isInitialized = true;
+    console.log('[ToolRegistrationService] Tools initialized from fixture:', tools.map(t => t.name));
+  }
 }
 
 export const toolRegistrationService = new ToolRegistrationService(); 
\ No newline at end of file
@@ -16,7 +16,10 @@ export const toolService = {
       uuid: tool.uuid,
       name: tool.name,
       description: tool.description || '',
-      instruction: tool.instruction || ''
+      instruction: tool.instruction || '',
+      approval_actions: tool.approval_actions ?? [],
+      max_attempts: tool.max_attempts ?? undefined,
+      retry_backoff_ms: tool.retry_backoff_ms ?? undefined
     }));
   },
 
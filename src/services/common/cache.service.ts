@@ -0,0 +1,147 @@
+import db from '../../database/db';
+import {and, eq, lte, sql, sum} from 'drizzle-orm';
+import {createHash} from 'crypto';
+import {completionCache} from '../../schema/completionCache';
+import {completion_cache} from '../../config/llm.config';
+import type {CompletionConfig} from '../../types/llm';
+import type {CompletionKind} from './fixture.service';
+
+type CachedKind = Exclude<CompletionKind, 'stream'>;
+
+interface CacheCounters {
+  hits: number;
+  misses: number;
+  writes: number;
+}
+
+interface PurgeFilter {
+  model?: string;
+  kind?: CachedKind;
+  expired_only?: boolean;
+}
+
+// Since the process started, per kind of completion
+const counters = new Map<CachedKind, CacheCounters>();
+
+const count = (kind: CachedKind, counter: keyof CacheCounters) => {
+  const kind_counters = counters.get(kind) ?? {hits: 0, misses: 0, writes: 0};
+  kind_counters[counter]++;
+  counters.set(kind, kind_counters);
+};
+
+// Zod schemas keep their object shapes behind functions, which JSON.stringify would skip; every other function
+// (refinements, bound methods) doesn't change what the model is asked for
+const stableJson = (value: unknown) =>
+  JSON.stringify(value, (key, nested) => (typeof nested === 'function' ? (key === 'shape' ? nested() : undefined) : nested));
+
+// Entries past max_entries or max_bytes, counting from the most recently used one
+const evict = () =>
+  db.run(sql`
+    DELETE FROM completion_cache WHERE id IN (
+      SELECT id FROM (
+        SELECT id,
+          ROW_NUMBER() OVER (ORDER BY last_used_at DESC, id DESC) AS position,
+          SUM(size) OVER (ORDER BY last_used_at DESC, id DESC) AS bytes
+        FROM completion_cache
+      ) WHERE position > ${completion_cache.max_entries} OR bytes > ${completion_cache.max_bytes}
+    )
+  `);
+
+export const completionCacheService = {
+  key: (kind: CachedKind, config: CompletionConfig, params: unknown) =>
+    createHash('sha256')
+      .update(stableJson({kind, model: config.model, temperature: config.temperature, messages: config.messages, params}))
+      .digest('hex'),
+
+  // null on a miss; a cached null output (e.g. no tool call) comes back as {output: null}
+  get: async (kind: CachedKind, key: string): Promise<{output: unknown} | null> => {
+    const now = new Date().toISOString();
+
+    try {
+      const [entry] = await db
+        .update(completionCache)
+        .set({hits: sql`${completionCache.hits} + 1`, last_used_at: now})
+        .where(and(eq(completionCache.key, key), sql`${completionCache.expires_at} > ${now}`))
+        .returning({output: completionCache.output});
+
+      count(kind, entry ? 'hits' : 'misses');
+      return entry ? {output: JSON.parse(entry.output)} : null;
+    } catch (error) {
+      console.error('[Cache] Failed to read the completion cache:', error);
+      return null;
+    }
+  },
+
+  set: async (kind: CachedKind, key: string, config: CompletionConfig, output: unknown) => {
+    const now = new Date();
+    const serialized = JSON.stringify(output ?? null);
+    const entry = {
+      kind,
+      model: config.model,
+      phase: config.usage?.phase ?? null,
+      output: serialized,
+      size: Buffer.byteLength(serialized),
+      hits: 0,
+      last_used_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + completion_cache.ttl_ms).toISOString()
+    };
+
+    try {
+      await db.insert(completionCache).values({key, ...entry}).onConflictDoUpdate({target: completionCache.key, set: entry});
+      await db.delete(completionCache).where(lte(completionCache.expires_at, entry.last_used_at));
+      await evict();
+      count(kind, 'writes');
+    } catch (error) {
+      console.error('[Cache] Failed to store a completion:', error);
+    }
+  },
+
+  stats: async () => {
+    const by_kind = await db
+      .select({
+        kind: completionCache.kind,
+        entries: sql<number>`count(*)`.mapWith(Number),
+        bytes: sql<number>`coalesce(${sum(completionCache.size)}, 0)`.mapWith(Number),
+        stored_hits: sql<number>`coalesce(${sum(completionCache.hits)}, 0)`.mapWith(Number)
+      })
+      .from(completionCache)
+      .groupBy(completionCache.kind);
+
+    const kinds = [...new Set<string>([...counters.keys(), ...by_kind.map(row => row.kind)])];
+
+    return {
+      enabled: completion_cache.enabled,
+      limits: {ttl_ms: completion_cache.ttl_ms, max_entries: completion_cache.max_entries, max_bytes: completion_cache.max_bytes},
+      kinds: kinds.map(kind => {
+        const {hits, misses, writes} = counters.get(kind as CachedKind) ?? {hits: 0, misses: 0, writes: 0};
+        const stored = by_kind.find(row => row.kind === kind);
+
+        return {
+          kind,
+          hits,
+          misses,
+          writes,
+          hit_rate: hits + misses > 0 ? hits / (hits + misses) : null,
+          entries: stored?.entries ?? 0,
+          bytes: stored?.bytes ?? 0,
+          stored_hits: stored?.stored_hits ?? 0 // across restarts, for the entries still cached
+        };
+      })
+    };
+  },
+
+  purge: async ({model, kind, expired_only}: PurgeFilter = {}) => {
+    const deleted = await db
+      .delete(completionCache)
+      .where(
+        and(
+          model ? eq(completionCache.model, model) : undefined,
+          kind ? eq(completionCache.kind, kind) : undefined,
+          expired_only ? lte(completionCache.expires_at, new Date().toISOString()) : undefined
+        )
+      )
+      .returning({id: completionCache.id});
+
+    return deleted.length;
+  }
+};
@@ -0,0 +1,72 @@
+import type {CoreMessage} from 'ai';
+import {providers} from '../../config/llm.config';
+import {createTokenizer} from './text.service';
+
+// Every message costs a few tokens of chat formatting on top of its content
+const MESSAGE_OVERHEAD = 4;
+const TRUNCATION_NOTE = '\n\n[truncated to fit the context window]';
+
+let tokenizer: ReturnType<typeof createTokenizer> | undefined;
+const getTokenizer = () => (tokenizer ??= createTokenizer('gpt-4o'));
+
+const messageText = (message: CoreMessage): string =>
+  typeof message.content === 'string'
+    ? message.content
+    : message.content.map(part => ('text' in part && typeof part.text === 'string' ? part.text : '')).join('');
+
+const countTokens = async (messages: CoreMessage[]) => {
+  const {countTokens} = await getTokenizer();
+  return messages.reduce((total, message) => total + countTokens(messageText(message)) + MESSAGE_OVERHEAD, 0);
+};
+
+export const contextService = {
+  countTokens,
+
+  // Tokens a prompt may take: the model's context window minus what's reserved for its output
+  getBudget: (model: string, max_tokens = 16384): number => {
+    const spec = Object.values(providers).find(models => models[model])?.[model];
+    if (!spec) {
+      return Infinity;
+    }
+
+    return spec.contextWindow - Math.min(max_tokens, spec.maxOutput);
+  },
+
+  // Drops the oldest history between the system prompt and the latest message until the prompt fits,
+  // and when even that isn't enough, cuts the end of the longest message
+  fit: async (messages: CoreMessage[], model: string, max_tokens?: number): Promise<CoreMessage[]> => {
+    const budget = contextService.getBudget(model, max_tokens);
+    let fitted = [...messages];
+    let tokens = await countTokens(fitted);
+
+    if (tokens <= budget) {
+      return messages;
+    }
+
+    const first_history = fitted.findIndex(message => message.role !== 'system');
+    while (tokens > budget && first_history !== -1 && first_history < fitted.length - 1) {
+      const [dropped] = fitted.splice(first_history, 1);
+      tokens -= await countTokens([dropped]);
+    }
+
+    const longest = fitted
+      .map((message, index) => ({message, index}))
+      .filter(({message}) => typeof message.content === 'string')
+      .sort((a, b) => messageText(b.message).length - messageText(a.message).length)[0];
+
+    if (tokens > budget && longest) {
+      const {countTokens: countText} = await getTokenizer();
+      const text = messageText(longest.message);
+      const text_tokens = countText(text);
+      const allowed = text_tokens - (tokens - budget) - countText(TRUNCATION_NOTE);
+
+      // Tokens don't map evenly onto characters, so the cut is proportional with some margin
+      const kept = text.slice(0, Math.max(0, Math.floor(((text.length * allowed) / text_tokens) * 0.95)));
+      fitted[longest.index] = {...longest.message, content: kept + TRUNCATION_NOTE} as CoreMessage;
+    }
+
+    console.warn(`[Context] Prompt for ${model} trimmed to fit its ${budget} token budget (${messages.length - fitted.length} message(s) dropped)`);
+
+    return fitted;
+  }
+};
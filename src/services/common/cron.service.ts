@@ -7,12 +7,15 @@ import type { Job, NewJob } from '../../schema/jobs';
 import type { Task } from '../../schema/task';
 import { taskService } from '../agent/task.service';
 import { conversationService } from '../agent/conversation.service';
+import { parseLocalTime } from '../../utils/time';
+import { default_timezone } from '../../config/locale.config';
 
 interface CreateJobParams {
   name: string;
   type: 'cron' | 'scheduled' | 'recurring';
   schedule: string;
   task_uuid: string;
+  timezone?: string; // the owner's timezone, in which the schedule is read
   metadata?: Record<string, any>;
 }
 
@@ -38,17 +41,17 @@ export const cronService = {
     console.log('Cron service initialized');
   },
 
-  async createJob({ name, type, schedule, task_uuid, metadata }: CreateJobParams): Promise<Job> {
+  async createJob({ name, type, schedule, task_uuid, timezone = default_timezone, metadata }: CreateJobParams): Promise<Job> {
     let next_run: string;
 
     try {
       if (type === 'cron') {
         const interval = parser.parseExpression(schedule, {
-          tz: 'Europe/Warsaw'
+          tz: timezone
         });
         next_run = interval.next().toDate().toISOString();
       } else if (type === 'scheduled' || type === 'recurring') {
-        next_run = new Date(schedule).toISOString();
+        next_run = parseLocalTime(schedule, timezone).toISOString();
       } else {
         throw new Error('Invalid job type');
       }
@@ -58,6 +61,7 @@ export const cronService = {
         name,
         type,
         schedule,
+        timezone,
         task_uuid,
         next_run,
         metadata: metadata ? JSON.stringify(metadata) : null,
@@ -75,17 +79,8 @@ export const cronService = {
   async checkJobs() {
     // console.log('Checking for pending jobs...');
     try {
-      // Convert current time to Poland timezone
-      const currentTime = new Date().toLocaleString('en-US', { 
-        timeZone: 'Europe/Warsaw',
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit',
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit',
-        hour12: false
-      }).replace(/(\d+)\/(\d+)\/(\d+),\s(\d+):(\d+):(\d+)/, '$3-$1-$2T$4:$5:$6Z');
+      // next_run is stored as a UTC ISO instant, so it compares with the current one as a string
+      const currentTime = new Date().toISOString();
 
     //   console.log('Current time:', currentTime);
 
@@ -126,7 +121,8 @@ export const cronService = {
         name: job.name,
         description: job.metadata?.description || '',
         status: 'pending',
-        uuid: job.task_uuid
+        uuid: job.task_uuid,
+        depends_on: []
       }]);
 
       const execution_result = await this.executeJob(job);
@@ -137,12 +133,12 @@ export const cronService = {
         const interval = parser.parseExpression(job.schedule, {
           currentDate: new Date(),
           iterator: true,
-          tz: 'Europe/Warsaw'
+          tz: job.timezone
         });
         next_run = interval.next().value.toISOString();
         console.log(`Next run for job ${job.uuid} scheduled at:`, next_run);
       } else if (job.type === 'recurring') {
-        next_run = new Date(job.schedule).toISOString();
+        next_run = parseLocalTime(job.schedule, job.timezone).toISOString();
       }
 
       await db
@@ -193,7 +189,8 @@ export const cronService = {
         name: job.name,
         description: metadata?.description || '',
         status: 'pending' as const,
-        uuid: null
+        uuid: null,
+        depends_on: []
       }];
 
       console.log('Creating task with data:', {
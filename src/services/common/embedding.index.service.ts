@@ -0,0 +1,161 @@
+import db from '../../database/db';
+import {and, asc, desc, eq, gt, sql} from 'drizzle-orm';
+import {v4 as uuidv4} from 'uuid';
+import {documents, embeddingIndexes, type EmbeddingIndex} from '../../schema';
+import {default_embedding_model, embedding_models} from '../../config/llm.config';
+import {embeddings} from './llm.service';
+import {COLLECTION_NAME, toPointPayload, vectorService} from './vector.service';
+import {NotFoundError, ValidationError} from '../../utils/errors';
+
+const BATCH_SIZE = 64;
+
+// documentService stores metadata as a JSON-encoded string, other writers as an object; both are unwrapped here
+const isIndexed = sql`json_extract(CASE json_type(${documents.metadata}) WHEN 'text' THEN json_extract(${documents.metadata}, '$') ELSE ${documents.metadata} END, '$.should_index') = 1`;
+
+const findIndex = async (uuid: string) => {
+  const [index] = await db.select().from(embeddingIndexes).where(eq(embeddingIndexes.uuid, uuid)).limit(1);
+  if (!index) {
+    throw new NotFoundError('Embedding index', {context: {uuid}});
+  }
+  return index;
+};
+
+const findActive = async () => {
+  const [index] = await db.select().from(embeddingIndexes).where(eq(embeddingIndexes.status, 'active')).limit(1);
+  return index;
+};
+
+// Only one index is active; the previous one is retired in the same transaction, and its collection stays in Qdrant
+const activate = async (index: EmbeddingIndex) => {
+  const now = new Date().toISOString();
+
+  await db.transaction(async tx => {
+    await tx.update(embeddingIndexes).set({status: 'retired'}).where(eq(embeddingIndexes.status, 'active'));
+    await tx.update(embeddingIndexes).set({status: 'active', finished_at: now, activated_at: now}).where(eq(embeddingIndexes.uuid, index.uuid));
+  });
+
+  vectorService.useIndexes(index);
+  console.log(`[Embeddings] Switched search to ${index.model} (${index.collection})`);
+};
+
+const build = async (index: EmbeddingIndex) => {
+  let last_id = 0;
+  let embedded = 0;
+
+  for (;;) {
+    const batch = await db
+      .select()
+      .from(documents)
+      .where(and(isIndexed, gt(documents.id, last_id)))
+      .orderBy(asc(documents.id))
+      .limit(BATCH_SIZE);
+
+    if (batch.length === 0) {
+      break;
+    }
+
+    const vectors = await embeddings(batch.map(document => document.text), index.model);
+    await vectorService.upsertPoints(batch.map((document, position) => ({vector: vectors[position], payload: toPointPayload(document)})), index);
+
+    last_id = batch[batch.length - 1].id;
+    embedded += batch.length;
+    await db.update(embeddingIndexes).set({embedded}).where(eq(embeddingIndexes.uuid, index.uuid));
+  }
+
+  await activate(await findIndex(index.uuid));
+};
+
+const fail = async (index: EmbeddingIndex, error: unknown) => {
+  console.error(`[Embeddings] Re-embedding into ${index.collection} failed:`, error);
+
+  await db
+    .update(embeddingIndexes)
+    .set({status: 'failed', error: error instanceof Error ? error.message : String(error), finished_at: new Date().toISOString()})
+    .where(eq(embeddingIndexes.uuid, index.uuid));
+
+  vectorService.useIndexes(vectorService.activeIndex());
+  await vectorService.dropCollection(index.collection).catch(() => {});
+};
+
+export const embeddingIndexService = {
+  // The first start adopts the existing collection for the configured model. A re-embedding interrupted by a
+  // restart can't be resumed, since documents indexed while the process was down never reached its collection
+  initialize: async () => {
+    let active = await findActive();
+
+    if (!active) {
+      const spec = embedding_models[default_embedding_model];
+      if (!spec) {
+        throw new ValidationError(`Embedding model ${default_embedding_model} not found in configuration`);
+      }
+
+      [active] = await db
+        .insert(embeddingIndexes)
+        .values({
+          uuid: uuidv4(),
+          model: default_embedding_model,
+          dimensions: spec.dimensions,
+          collection: COLLECTION_NAME,
+          status: 'active',
+          activated_at: new Date().toISOString()
+        })
+        .returning();
+    } else if (active.model !== default_embedding_model) {
+      console.warn(`[Embeddings] EMBEDDING_MODEL is ${default_embedding_model}, but documents are indexed with ${active.model}; re-embed them to switch`);
+    }
+
+    for (const interrupted of await db.select().from(embeddingIndexes).where(eq(embeddingIndexes.status, 'building'))) {
+      await fail(interrupted, new Error('Interrupted by a restart'));
+    }
+
+    vectorService.useIndexes(active);
+    await vectorService.ensureCollection(active);
+  },
+
+  list: async () => db.select().from(embeddingIndexes).orderBy(desc(embeddingIndexes.id)),
+
+  get: findIndex,
+
+  // Creates the model's collection and fills it in the background; search keeps using the active index until it's done
+  reembed: async (model: string): Promise<EmbeddingIndex> => {
+    const spec = embedding_models[model];
+    if (!spec) {
+      throw new ValidationError(`Embedding model ${model} not found in configuration`);
+    }
+
+    if (vectorService.activeIndex().model === model) {
+      throw new ValidationError(`Documents are already indexed with ${model}`);
+    }
+
+    const [running] = await db.select().from(embeddingIndexes).where(eq(embeddingIndexes.status, 'building')).limit(1);
+    if (running) {
+      throw new ValidationError(`A re-embedding with ${running.model} is already running`);
+    }
+
+    const [{total}] = await db.select({total: sql<number>`count(*)`.mapWith(Number)}).from(documents).where(isIndexed);
+    const [index] = await db
+      .insert(embeddingIndexes)
+      .values({
+        uuid: uuidv4(),
+        model,
+        dimensions: spec.dimensions,
+        collection: `${COLLECTION_NAME}_${model.replace(/[^a-z0-9]+/gi, '_')}_${Date.now()}`,
+        status: 'building',
+        total
+      })
+      .returning();
+
+    try {
+      await vectorService.ensureCollection(index);
+    } catch (error) {
+      await fail(index, error);
+      throw error;
+    }
+
+    vectorService.useIndexes(vectorService.activeIndex(), index);
+
+    build(index).catch(error => fail(index, error).catch(console.error));
+
+    return index;
+  }
+};
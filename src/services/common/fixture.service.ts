@@ -0,0 +1,310 @@
+import type {CoreMessage} from 'ai';
+import type {ChatRequest} from '../../dto/chat.dto';
+import type {ProgressEvent, Tool} from '../../types/agent';
+import type {CompletionConfig} from '../../types/llm';
+import type {StateManager} from '../agent/state.service';
+import {ReplayError} from '../../utils/errors';
+
+export type CompletionKind = 'text' | 'stream' | 'object' | 'tool_call';
+
+type Decision = Extract<ProgressEvent, {type: 'tasks' | 'action' | 'payload'}>;
+
+interface CompletionEntry {
+  key: string;
+  kind: CompletionKind;
+  model: string;
+  messages: CoreMessage[];
+  output: unknown;
+}
+
+interface ToolCallEntry {
+  tool: string;
+  action: string;
+  payload: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+}
+
+export interface Fixture {
+  version: 1;
+  recorded_at: string;
+  request: Omit<ChatRequest, 'stream' | 'events'>;
+  tools: Tool[];
+  completions: CompletionEntry[];
+  tool_calls: ToolCallEntry[];
+  decisions: Decision[];
+}
+
+export interface Divergence {
+  kind: 'tasks' | 'action' | 'payload' | 'tool_call' | 'missing_completion' | 'missing_tool_call';
+  index: number;
+  expected: unknown;
+  actual: unknown;
+}
+
+interface RecordingSession {
+  mode: 'record';
+  path: string;
+  fixture: Fixture;
+  writing: Promise<unknown>;
+}
+
+interface ReplaySession {
+  mode: 'replay';
+  fixture: Fixture;
+  consumed: Set<CompletionEntry | ToolCallEntry>;
+  decisions: Decision[];
+  divergences: Divergence[];
+}
+
+type Session = RecordingSession | ReplaySession;
+
+// Sessions are keyed by conversation, so concurrent runs never write into each other's fixtures
+const sessions = new Map<string, Session>();
+
+// Calls without a conversation (e.g. /v1 passthrough completions) never belong to a recorded or replayed run
+const findSession = (conversation_uuid?: string | null): Session | undefined =>
+  conversation_uuid ? sessions.get(conversation_uuid) : undefined;
+
+const completionKey = (config: CompletionConfig, kind: CompletionKind) => config.usage?.phase ?? kind;
+
+// ai.service adds the conversation to every payload, and it differs between the recorded and the replayed run
+const withoutConversation = ({conversation_uuid, ...payload}: Record<string, unknown>) => payload;
+
+// Generated uuids differ between runs, so decisions are compared by what was decided
+const normalizeDecision = (decision: Decision) => {
+  switch (decision.type) {
+    case 'tasks':
+      return decision.tasks.map(({name, status}) => ({name, status}));
+    case 'action':
+      return {name: decision.name, tool: decision.tool};
+    case 'payload':
+      return {tool: decision.tool, tool_action: decision.tool_action, payload: withoutConversation(decision.payload)};
+  }
+};
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Task uuids are generated anew in every run, so the tasks a recorded plan or action refers to are swapped for the
+// replayed task of the same name; hand-written fixtures may name the task instead
+const remapTaskReferences = (session: ReplaySession, key: string, output: unknown): unknown => {
+  const recorded_names = new Map(
+    session.fixture.decisions.flatMap(decision => (decision.type === 'tasks' ? decision.tasks.map(task => [task.uuid, task.name] as const) : []))
+  );
+  const replayed_uuids = new Map(
+    session.decisions.flatMap(decision => (decision.type === 'tasks' ? decision.tasks.map(task => [task.name, task.uuid] as const) : []))
+  );
+  const resolve = (reference: unknown) =>
+    typeof reference === 'string' ? replayed_uuids.get(recorded_names.get(reference) ?? reference) : undefined;
+
+  const result = (output as {result?: unknown} | null)?.result;
+
+  if (key === 'next' && result && typeof result === 'object' && 'task_uuid' in result) {
+    return {...(output as object), result: {...result, task_uuid: resolve(result.task_uuid) ?? result.task_uuid}};
+  }
+
+  // A task the replay doesn't have is planned as a new one rather than updating a row that doesn't exist
+  if (key === 'plan' && Array.isArray(result)) {
+    return {...(output as object), result: result.map(task => ({...task, uuid: resolve(task?.uuid) ?? null}))};
+  }
+
+  return output;
+};
+
+const persist = (session: RecordingSession) => {
+  session.writing = session.writing
+    .then(() => Bun.write(session.path, JSON.stringify(session.fixture, null, 2)))
+    .catch(error => console.error(`[Fixture] Failed to write ${session.path}:`, error));
+};
+
+const compareDecisions = (recorded: Decision[], replayed: Decision[]): Divergence[] =>
+  (['tasks', 'action', 'payload'] as const).flatMap(kind => {
+    const expected = recorded.filter(decision => decision.type === kind).map(normalizeDecision);
+    const actual = replayed.filter(decision => decision.type === kind).map(normalizeDecision);
+
+    return Array.from({length: Math.max(expected.length, actual.length)}, (_, index) => index)
+      .filter(index => !isEqual(expected[index], actual[index]))
+      .map(index => ({kind, index, expected: expected[index] ?? null, actual: actual[index] ?? null}));
+  });
+
+export const fixtureService = {
+  isReplaying: () => [...sessions.values()].some(session => session.mode === 'replay'),
+
+  // Recording is enabled by pointing AGI_RECORD_FIXTURES at a directory
+  startRecording: (stateManager: StateManager, request: ChatRequest) => {
+    const {config, session: state_session} = stateManager.getState();
+    const {conversation_uuid} = config;
+    const directory = process.env.AGI_RECORD_FIXTURES;
+
+    if (!directory || !conversation_uuid) {
+      return;
+    }
+
+    const {stream, events, ...recorded_request} = request;
+    const session: RecordingSession = {
+      mode: 'record',
+      path: `${directory}/${conversation_uuid}-${Date.now()}.json`,
+      fixture: {
+        version: 1,
+        recorded_at: new Date().toISOString(),
+        // The persona may not exist where the fixture is replayed, so its model is recorded and its tools are in `tools`
+        request: {...recorded_request, model: config.model, persona_uuid: undefined, conversation_id: undefined},
+        tools: state_session.tools,
+        completions: [],
+        tool_calls: [],
+        decisions: []
+      },
+      writing: Promise.resolve()
+    };
+
+    sessions.set(conversation_uuid, session);
+    stateManager.onProgress(event => {
+      if (event.type === 'tasks' || event.type === 'action' || event.type === 'payload') {
+        session.fixture.decisions.push(event);
+        persist(session);
+      }
+    });
+    persist(session);
+
+    console.log(`[Fixture] Recording conversation ${conversation_uuid} to ${session.path}`);
+  },
+
+  // A delegated run's completions and tool calls go into the fixture of the run that delegated it
+  linkConversation: (conversation_uuid: string, parent_uuid: string | null) => {
+    const session = parent_uuid ? sessions.get(parent_uuid) : undefined;
+    if (!session) {
+      return () => {};
+    }
+
+    sessions.set(conversation_uuid, session);
+    return () => sessions.delete(conversation_uuid);
+  },
+
+  // Ends the recording whether the run answered or failed; the file holds whatever was recorded until then
+  stopRecording: (conversation_uuid: string) => {
+    const session = sessions.get(conversation_uuid);
+    if (session?.mode !== 'record') {
+      return;
+    }
+
+    sessions.delete(conversation_uuid);
+    console.log(`[Fixture] Recorded ${session.path}`);
+  },
+
+  // Binds the completion to its run's recording when it starts, so a streamed answer that finishes after the
+  // recording was stopped still lands in the fixture
+  recorder: (config: CompletionConfig, kind: CompletionKind) => {
+    const session = findSession(config.usage?.conversation_uuid);
+
+    return (output: unknown) => {
+      if (session?.mode !== 'record') {
+        return;
+      }
+
+      session.fixture.completions.push({
+        key: completionKey(config, kind),
+        kind,
+        model: config.model,
+        messages: config.messages,
+        output
+      });
+      persist(session);
+    };
+  },
+
+  recordCompletion: (config: CompletionConfig, kind: CompletionKind, output: unknown) => fixtureService.recorder(config, kind)(output),
+
+  recordToolCall: (tool: string, action: string, payload: Record<string, unknown>, outcome: {result?: unknown; error?: string}) => {
+    const session = findSession(payload.conversation_uuid as string | undefined);
+    if (session?.mode !== 'record') {
+      return;
+    }
+
+    session.fixture.tool_calls.push({tool, action, payload: withoutConversation(payload), ...outcome});
+    persist(session);
+  },
+
+  startReplay: (stateManager: StateManager, fixture: Fixture) => {
+    const {conversation_uuid} = stateManager.getState().config;
+    if (!conversation_uuid) {
+      throw new ReplayError('A replayed run needs a conversation');
+    }
+
+    const session: ReplaySession = {mode: 'replay', fixture, consumed: new Set(), decisions: [], divergences: []};
+
+    sessions.set(conversation_uuid, session);
+    stateManager.onProgress(event => {
+      if (event.type === 'tasks' || event.type === 'action' || event.type === 'payload') {
+        session.decisions.push(event);
+      }
+    });
+  },
+
+  // Serves recorded outputs per phase in recorded order, so an extra call in one phase doesn't shift the others
+  replayCompletion: (config: CompletionConfig, kind: CompletionKind): unknown => {
+    const session = findSession(config.usage?.conversation_uuid);
+    if (session?.mode !== 'replay') {
+      throw new ReplayError('No replay session for this completion');
+    }
+
+    const key = completionKey(config, kind);
+    const entry = session.fixture.completions.find(entry => entry.key === key && !session.consumed.has(entry));
+
+    if (!entry) {
+      const index = session.fixture.completions.filter(entry => entry.key === key).length;
+      session.divergences.push({kind: 'missing_completion', index, expected: null, actual: {key, kind}});
+      throw new ReplayError(`The fixture has no more recorded completions for ${key}`);
+    }
+
+    session.consumed.add(entry);
+    return remapTaskReferences(session, key, entry.output);
+  },
+
+  replayToolCall: (tool: string, action: string, payload: Record<string, unknown>): unknown => {
+    const session = findSession(payload.conversation_uuid as string | undefined);
+    if (session?.mode !== 'replay') {
+      throw new ReplayError(`No replay session for tool ${tool}`);
+    }
+
+    const actual = {tool, action, payload: withoutConversation(payload)};
+    const index = session.fixture.tool_calls.findIndex(entry => entry.tool === tool && !session.consumed.has(entry));
+    const entry = session.fixture.tool_calls[index];
+
+    if (!entry) {
+      session.divergences.push({kind: 'missing_tool_call', index: session.fixture.tool_calls.length, expected: null, actual});
+      throw new ReplayError(`The fixture has no more recorded calls of tool ${tool}`);
+    }
+
+    session.consumed.add(entry);
+
+    const expected = {tool: entry.tool, action: entry.action, payload: entry.payload};
+    if (!isEqual(expected, actual)) {
+      session.divergences.push({kind: 'tool_call', index, expected, actual});
+    }
+
+    if (entry.error) {
+      throw new Error(entry.error);
+    }
+
+    return entry.result;
+  },
+
+  finishReplay: (conversation_uuid: string) => {
+    const session = sessions.get(conversation_uuid);
+    if (session?.mode !== 'replay') {
+      throw new ReplayError(`No replay session for conversation ${conversation_uuid}`);
+    }
+
+    sessions.delete(conversation_uuid);
+
+    const divergences = [...compareDecisions(session.fixture.decisions, session.decisions), ...session.divergences];
+
+    return {
+      divergences,
+      unused_completions: session.fixture.completions.filter(entry => !session.consumed.has(entry)).map(({key, kind}) => ({key, kind})),
+      unused_tool_calls: session.fixture.tool_calls
+        .filter(entry => !session.consumed.has(entry))
+        .map(({tool, action}) => ({tool, action}))
+    };
+  }
+};
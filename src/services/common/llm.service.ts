@@ -1,100 +1,354 @@
-import {embed, generateText, generateObject, streamText} from 'ai';
-import {openai} from '@ai-sdk/openai';
+import {embed, embedMany, generateText, generateObject, streamText, JSONParseError, TypeValidationError, type FinishReason, type LanguageModelUsage, type ProviderMetadata} from 'ai';
+import {createOpenAI, openai} from '@ai-sdk/openai';
 import OpenAI, { toFile } from 'openai';
 import {type CompletionConfig} from '../../types/llm';
-import type {CoreMessage} from 'ai';
+import type {CoreMessage, CoreTool} from 'ai';
 import type {ChatCompletion} from 'openai/resources/chat/completions';
 import {tempFile} from './upload.service';
-import {providers} from '../../config/llm.config';
+import {completion_cache, default_embedding_model, embedding_models, local_provider, providers} from '../../config/llm.config';
 import {anthropic} from '@ai-sdk/anthropic';
+import {z} from 'zod';
+import {CompletionError, StructuredOutputError} from '../../utils/errors';
+import {fixtureService} from './fixture.service';
+import {findProvider, providerService} from './provider.service';
+import type {CompletionKind} from './fixture.service';
+
+// Created on first use, like the OpenAI client below
+let local_client: ReturnType<typeof createOpenAI> | undefined;
+const getLocalProvider = () =>
+  (local_client ??= createOpenAI({
+    name: 'local',
+    baseURL: local_provider.base_url,
+    apiKey: local_provider.api_key,
+    compatibility: local_provider.stream_usage ? 'strict' : 'compatible'
+  }));
+
+const languageModel = (provider: string, model_id: string) => {
+  switch (provider) {
+    case 'anthropic':
+      return anthropic(model_id, {cacheControl: true});
+    case 'local':
+      return getLocalProvider()(model_id);
+    default:
+      return openai(model_id);
+  }
+};
+
+// Marks the end of the leading system prompt as a cache breakpoint, so Anthropic caches the long agent prompts
+// between the calls of a run; prompts shorter than the model's minimum are simply not cached
+const withPromptCaching = (messages: CoreMessage[]): CoreMessage[] => {
+  const leading_system = messages.findIndex(message => message.role !== 'system');
+  const breakpoint = (leading_system === -1 ? messages.length : leading_system) - 1;
+
+  return messages.map((message, index) =>
+    index === breakpoint ? {...message, experimental_providerMetadata: {anthropic: {cacheControl: {type: 'ephemeral'}}}} : message
+  );
+};
 
 const createBaseConfig = ({model = 'gpt-4.1', messages, temperature = 0.7, max_tokens = 16384, user}: CompletionConfig) => {
-  const provider = Object.entries(providers).find(([_, models]) => 
-    Object.keys(models).includes(model)
-  )?.[0] ?? 'openai';
+  const provider = findProvider(model);
 
   const modelSpec = providers[provider][model];
   if (!modelSpec) {
     throw new Error(`Model ${model} not found in configuration`);
   }
 
-  const aiModel = provider === 'anthropic' 
-    ? anthropic(modelSpec.id)
-    : openai(modelSpec.id);
-
   return {
-    model: aiModel,
-    messages: messages as CoreMessage[],
+    model: languageModel(provider, modelSpec.id),
+    messages: provider === 'anthropic' ? withPromptCaching(messages) : messages,
     temperature,
-    max_tokens: Math.min(max_tokens, modelSpec.maxOutput),
+    maxTokens: Math.min(max_tokens, modelSpec.maxOutput),
+    maxRetries: 0, // providerService retries and falls back
     user: user.uuid
   };
 };
 
+// Errors already describing a failed fallback chain are passed on as they are
+const completionFailed = (kind: string, error: unknown) =>
+  error instanceof CompletionError
+    ? error
+    : new CompletionError(`${kind} completion failed: ${error instanceof Error ? error.message : 'Unknown error'}`, {cause: error});
+
+// Every billed completion lands in the usage table; accounting problems are logged but never fail the completion itself.
+// Anthropic reports prompt tokens written to and read from its cache apart from the rest, and bills them at other rates
+const recordUsage = async (config: CompletionConfig, usage?: {promptTokens: number; completionTokens: number}, provider_metadata?: ProviderMetadata) => {
+  if (!config.usage || !usage) {
+    return;
+  }
+
+  // Loaded lazily: the schema imports this module, and drizzle-kit can't load the bun:sqlite database behind usage.service
+  const {calculateCost, usageService} = await import('./usage.service');
+
+  const {onUsage, ...context} = config.usage;
+  const model = config.model || 'gpt-4.1';
+  const cache = {
+    write: Number(provider_metadata?.anthropic?.cacheCreationInputTokens ?? 0),
+    read: Number(provider_metadata?.anthropic?.cacheReadInputTokens ?? 0)
+  };
+  const prompt_tokens = (usage.promptTokens || 0) + cache.write + cache.read;
+  const completion_tokens = usage.completionTokens || 0;
+
+  onUsage?.({tokens: prompt_tokens + completion_tokens, cost: calculateCost(model, prompt_tokens, completion_tokens, cache)});
+
+  try {
+    await usageService.record({...context, model, prompt_tokens, completion_tokens, cache});
+  } catch (error) {
+    console.error('Failed to record usage:', error);
+  }
+};
+
+// Every prompt, not only the final answer, has to fit into the model's context window next to its output.
+// Loaded lazily for the same reason as usage.service: the tokenizer behind it can't be loaded by drizzle-kit
+const fitContext = async (config: CompletionConfig, max_tokens?: number): Promise<CompletionConfig> => {
+  const {contextService} = await import('./context.service');
+  return {...config, messages: await contextService.fit(config.messages, config.model || 'gpt-4.1', max_tokens)};
+};
+
+// Returns the output of an identical earlier call, or completes and stores it. Only deterministic calls are cached,
+// since sampled ones would stop varying. Loaded lazily like usage.service, as the cache lives in the same database
+const cached = async <T>(kind: Exclude<CompletionKind, 'stream'>, config: CompletionConfig, params: unknown, complete: () => Promise<T>): Promise<T> => {
+  if (!completion_cache.enabled || config.cache === false || config.temperature !== 0) {
+    return complete();
+  }
+
+  const {completionCacheService} = await import('./cache.service');
+  const key = completionCacheService.key(kind, config, params);
+  const hit = await completionCacheService.get(kind, key);
+  if (hit) {
+    return hit.output as T;
+  }
+
+  const output = await complete();
+  await completionCacheService.set(kind, key, config, output);
+
+  return output;
+};
+
 export const completion = {
   text: async ({max_tokens = 16384, ...config}: CompletionConfig, openAIFormat = false): Promise<string | ChatCompletion> => {
+    if (fixtureService.isReplaying()) {
+      const text = fixtureService.replayCompletion(config, 'text') as string;
+      return openAIFormat ? generateResponseBody(text, config.model || 'gpt-4o') : text;
+    }
+
     try {
-      const result = await generateText({
-        ...createBaseConfig(config),
-        maxTokens: max_tokens
+      // Only known for fresh completions; cached ones cost nothing
+      let usage: LanguageModelUsage | undefined;
+
+      const {text, model, finish_reason} = await cached('text', config, {max_tokens}, async () => {
+        const {result, model} = await providerService.run(config.model || 'gpt-4.1', config.generation, async model =>
+          generateText(createBaseConfig({...(await fitContext({...config, model}, max_tokens)), max_tokens}))
+        );
+
+        await recordUsage({...config, model}, result.usage, result.experimental_providerMetadata);
+        usage = result.usage;
+
+        return {text: result.text, model, finish_reason: result.finishReason};
       });
 
-      return openAIFormat ? generateResponseBody(result.text, config.model || 'gpt-4o', result.usage) : result.text;
+      fixtureService.recordCompletion(config, 'text', text);
+
+      return openAIFormat ? generateResponseBody(text, model, usage, finish_reason) : text;
     } catch (error) {
-      throw new Error(`Text completion failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw completionFailed('Text', error);
     }
   },
 
   stream: async ({max_tokens = 16384, ...config}: CompletionConfig) => {
+    if (fixtureService.isReplaying()) {
+      const text = fixtureService.replayCompletion(config, 'stream') as string;
+      return new ReadableStream<string>({
+        start(controller) {
+          controller.enqueue(text);
+          controller.close();
+        }
+      });
+    }
+
+    const record = fixtureService.recorder(config, 'stream');
+
     try {
-      const provider = Object.entries(providers).find(([_, models]) => 
-        Object.keys(models).includes(config.model || 'gpt-4o')
-      )?.[0] ?? 'openai';
+      // A provider that fails does so before its first chunk, so waiting for that chunk is enough to fall back
+      // to the next model; errors after it end the stream the client is already reading
+      const {result, model} = await providerService.run(config.model || 'gpt-4.1', config.generation, async model => {
+        const stream = streamText(createBaseConfig({...(await fitContext({...config, model}, max_tokens)), max_tokens}));
+        const reader = stream.textStream.getReader();
+        return {stream, reader, first: await reader.read()};
+      });
+      const {stream: {usage, text, experimental_providerMetadata}, reader, first} = result;
 
-      const {textStream} = streamText({
-        ...createBaseConfig(config),
-        maxTokens: Math.min(max_tokens, providers[provider][config.model || 'gpt-4o'].maxOutput)
+      // Usage is only known once the client has consumed the whole stream
+      Promise.all([usage, experimental_providerMetadata])
+        .then(([usage, provider_metadata]) => recordUsage({...config, model}, usage, provider_metadata))
+        .catch(error => console.error('Failed to read stream usage:', error));
+      text.then(record).catch(() => {});
+
+      return new ReadableStream<string>({
+        start(controller) {
+          first.done ? controller.close() : controller.enqueue(first.value);
+        },
+        async pull(controller) {
+          const {done, value} = await reader.read();
+          done ? controller.close() : controller.enqueue(value);
+        },
+        cancel(reason) {
+          return reader.cancel(reason);
+        }
       });
-      return textStream;
     } catch (error) {
-      throw new Error(`Stream completion failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw completionFailed('Stream', error);
     }
   },
 
-  object: async <T = unknown>(config: CompletionConfig): Promise<T> => {
+  // Offers the tools to the model as functions and returns the call it made; the tools themselves are never executed here
+  toolCall: async (
+    {max_tokens = 16384, ...config}: CompletionConfig,
+    tools: Record<string, CoreTool>
+  ): Promise<{tool_name: string; args: Record<string, unknown>} | null> => {
+    if (fixtureService.isReplaying()) {
+      return fixtureService.replayCompletion(config, 'tool_call') as {tool_name: string; args: Record<string, unknown>} | null;
+    }
+
     try {
-      const provider = Object.entries(providers).find(([_, models]) => 
-        Object.keys(models).includes(config.model || 'gpt-4o')
-      )?.[0] ?? 'openai';
-
-      if (provider === 'anthropic') {
-        const result = await completion.text({
-          ...config,
-          max_tokens: providers[provider][config.model || 'gpt-4o'].maxOutput
-        });
-        return JSON.parse(result as string) as T;
-      }
+      const output = await cached('tool_call', config, {max_tokens, tools}, async () => {
+        const {result: {toolCalls, usage, experimental_providerMetadata}, model} = await providerService.run(
+          config.model || 'gpt-4.1',
+          config.generation,
+          async model =>
+            generateText({
+              ...createBaseConfig({...(await fitContext({...config, model}, max_tokens)), max_tokens}),
+              tools,
+              toolChoice: 'required'
+            })
+        );
 
-      const {object} = await generateObject({
-        ...createBaseConfig(config),
-        output: 'no-schema'
+        await recordUsage({...config, model}, usage, experimental_providerMetadata);
+
+        const [call] = toolCalls;
+        return call ? {tool_name: call.toolName, args: call.args as Record<string, unknown>} : null;
       });
-      return object as T;
+
+      fixtureService.recordCompletion(config, 'tool_call', output);
+
+      return output;
     } catch (error) {
-      throw new Error(`Object completion failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw completionFailed('Tool call', error);
+    }
+  },
+
+  // With a schema, output that doesn't match is sent back to the model with the validation issues,
+  // and after the last repair round-trip the call fails instead of returning a half-valid object
+  object: async <T = unknown>(config: CompletionConfig, schema?: z.ZodType<T>, repair_attempts = 2): Promise<T> => {
+    let messages = config.messages;
+
+    for (let attempt = 0; ; attempt++) {
+      const output = await generateJson({...config, messages}, schema);
+
+      if (!schema) {
+        return output as T;
+      }
+
+      const validation = schema.safeParse(output);
+      if (validation.success) {
+        return validation.data;
+      }
+
+      const issues = validation.error.issues.map(issue => `- ${issue.path.join('.') || '(root)'}: ${issue.message}`).join('\n');
+
+      if (attempt >= repair_attempts) {
+        throw new StructuredOutputError(`Output still invalid after ${repair_attempts} repair attempt(s)`, {
+          context: {model: config.model, issues: validation.error.issues, output}
+        });
+      }
+
+      console.warn(`[LLM] Invalid structured output (attempt ${attempt + 1}), asking for a repair:\n${issues}`);
+
+      messages = [
+        ...messages,
+        {role: 'assistant', content: typeof output === 'string' ? output : JSON.stringify(output)},
+        {
+          role: 'user',
+          content: `Your previous response is not valid JSON in the required format:\n${issues}\n\nRespond again with the complete, corrected JSON object only.`
+        }
+      ];
     }
   }
 };
 
-export const embedding = async (text: string) => {
-  const {embedding} = await embed({
-    model: openai.embedding('text-embedding-3-large'),
-    value: text
-  });
+// Returns the parsed JSON, or the raw text when the model produced something that doesn't parse, so it can be repaired
+const generateJson = async (config: CompletionConfig, schema?: z.ZodType): Promise<unknown> => {
+  if (fixtureService.isReplaying()) {
+    return fixtureService.replayCompletion(config, 'object');
+  }
+
+  const output = await requestJson(config, schema);
+  fixtureService.recordCompletion(config, 'object', output);
+
+  return output;
+};
+
+// Anthropic has no JSON mode, so objects are always requested through a tool whose input is the object;
+// without a schema that tool takes any object. Local models get JSON mode with the schema in the prompt,
+// since few of them can call tools
+const objectMode = (provider: string) => (provider === 'anthropic' ? 'tool' : provider === 'local' ? 'json' : 'auto');
+
+// Objects use the whole output budget of whichever model in the fallback chain answers. Only objects the
+// provider call validated are cached; raw output returned for a repair never is
+const requestJson = async (config: CompletionConfig, schema?: z.ZodType): Promise<unknown> => {
+  try {
+    return await cached('object', config, {schema}, async () => {
+      const {result: {object, usage, experimental_providerMetadata}, model} = await providerService.run(
+        config.model || 'gpt-4.1',
+        config.generation,
+        async model => {
+          const provider = findProvider(model);
+          const max_output = providers[provider][model]?.maxOutput;
+          const base_config = createBaseConfig({...(await fitContext({...config, model}, max_output)), max_tokens: max_output});
+          const object_schema = schema ?? (provider === 'anthropic' ? z.record(z.unknown()) : undefined);
+
+          return object_schema
+            ? generateObject({...base_config, schema: object_schema, mode: objectMode(provider)})
+            : generateObject({...base_config, output: 'no-schema'});
+        }
+      );
+
+      await recordUsage({...config, model}, usage, experimental_providerMetadata);
+
+      return object;
+    });
+  } catch (error) {
+    if (TypeValidationError.isInstance(error)) {
+      return error.value;
+    }
+    if (JSONParseError.isInstance(error)) {
+      return error.text;
+    }
+    throw completionFailed('Object', error);
+  }
+};
+
+const embeddingModel = (model: string) => {
+  const spec = embedding_models[model];
+  if (!spec) {
+    throw new Error(`Embedding model ${model} not found in configuration`);
+  }
+
+  return spec.provider === 'local' ? getLocalProvider().embedding(model) : openai.embedding(model);
+};
+
+export const embedding = async (text: string, model = default_embedding_model) => {
+  const {embedding} = await embed({model: embeddingModel(model), value: text});
 
   return embedding;
 };
 
+// Split into requests of the provider's batch size by the AI SDK
+export const embeddings = async (texts: string[], model = default_embedding_model) => {
+  const {embeddings} = await embedMany({model: embeddingModel(model), values: texts});
+
+  return embeddings;
+};
+
 export function generateChunk(delta: string, model: string) {
   return {
     id: 'chatcmpl-' + Date.now(),
@@ -106,7 +360,22 @@ export function generateChunk(delta: string, model: string) {
   };
 }
 
-export function generateResponseBody(response: string, model: string, usage?: any): ChatCompletion {
+// OpenAI's names for the finish reasons the AI SDK reports for every provider
+const toOpenAIFinishReason = (finish_reason?: FinishReason): ChatCompletion.Choice['finish_reason'] => {
+  switch (finish_reason) {
+    case 'length':
+      return 'length';
+    case 'content-filter':
+      return 'content_filter';
+    case 'tool-calls':
+      return 'tool_calls';
+    default:
+      return 'stop';
+  }
+};
+
+// Whichever provider wrote the answer, clients get it as an OpenAI chat completion
+export function generateResponseBody(response: string, model: string, usage?: LanguageModelUsage, finish_reason?: FinishReason): ChatCompletion {
   return {
     id: 'chatcmpl-' + Date.now(),
     object: 'chat.completion',
@@ -119,21 +388,17 @@ export function generateResponseBody(response: string, model: string, usage?: an
         message: {
           role: 'assistant',
           content: response,
+          refusal: null
         },
-        finish_reason: 'stop'
+        logprobs: null,
+        finish_reason: toOpenAIFinishReason(finish_reason)
       }
     ],
-    usage: usage
-      ? {
-          prompt_tokens: usage.promptTokens ?? 0,
-          completion_tokens: usage.completionTokens ?? 0,
-          total_tokens: usage.totalTokens ?? 0
-        }
-      : {
-          prompt_tokens: 0,
-          completion_tokens: 0,
-          total_tokens: 0
-        }
+    usage: {
+      prompt_tokens: usage?.promptTokens ?? 0,
+      completion_tokens: usage?.completionTokens ?? 0,
+      total_tokens: usage?.totalTokens ?? 0
+    }
   };
 }
 
@@ -149,9 +414,9 @@ interface TranscriptionResult {
   file_path?: string;
 }
 
-const openai_client = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-});
+// Created on first use, so importing this module doesn't require an API key (e.g. when replaying fixtures)
+let openai_client: OpenAI | undefined;
+const getOpenAIClient = () => (openai_client ??= new OpenAI({apiKey: process.env.OPENAI_API_KEY}));
 
 export const transcription = {
   fromBuffer: async (
@@ -163,7 +428,7 @@ export const transcription = {
     try {
       const file = await toFile(audio_buffer, 'audio.ogg');
       
-      const result = await openai_client.audio.transcriptions.create({
+      const result = await getOpenAIClient().audio.transcriptions.create({
         file,
         model: config.model || 'whisper-1',
         language: config.language,
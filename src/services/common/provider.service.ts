@@ -0,0 +1,115 @@
+import {APICallError} from 'ai';
+import type {LangfuseGenerationClient} from 'langfuse';
+import {circuit_breaker, fallback_chains, providers, retry_policy} from '../../config/llm.config';
+import {CompletionError} from '../../utils/errors';
+
+interface Circuit {
+  failures: number; // in a row
+  opened_at: number | null;
+}
+
+const circuits = new Map<string, Circuit>();
+
+export const findProvider = (model: string) =>
+  Object.entries(providers).find(([_, models]) => Object.keys(models).includes(model))?.[0] ?? 'openai';
+
+const circuitOf = (provider: string): Circuit => {
+  const circuit = circuits.get(provider) ?? {failures: 0, opened_at: null};
+  circuits.set(provider, circuit);
+  return circuit;
+};
+
+const isOpen = (provider: string) => {
+  const {opened_at} = circuitOf(provider);
+  return opened_at !== null && Date.now() - opened_at < circuit_breaker.cooldown_ms;
+};
+
+const recordFailure = (provider: string) => {
+  const circuit = circuitOf(provider);
+  circuit.failures++;
+
+  if (circuit.failures >= circuit_breaker.failure_threshold) {
+    circuit.opened_at = Date.now();
+    console.warn(`[Provider] ${provider} failed ${circuit.failures} times in a row, skipping it for ${circuit_breaker.cooldown_ms / 1000}s`);
+  }
+};
+
+const recordSuccess = (provider: string) => circuits.set(provider, {failures: 0, opened_at: null});
+
+// Rejected keys and missing access fail every call to the provider, so another provider is tried, but never retried;
+// errors caused by the request itself (e.g. invalid input) would fail on any model and are thrown right away
+const isProviderFailure = (error: unknown): error is APICallError =>
+  APICallError.isInstance(error) && (error.isRetryable || error.statusCode === 401 || error.statusCode === 403);
+
+// Exponential with jitter, so calls that failed together don't retry together; a Retry-After from the provider wins
+const backoff = (attempt: number, error: APICallError) => {
+  const retry_after = Number(error.responseHeaders?.['retry-after']) * 1000;
+  const exponential = Math.min(retry_policy.max_delay_ms, retry_policy.base_delay_ms * 2 ** (attempt - 1));
+  const delay = exponential / 2 + Math.random() * (exponential / 2);
+
+  return Number.isFinite(retry_after) ? Math.min(retry_policy.max_delay_ms, Math.max(delay, retry_after)) : delay;
+};
+
+const describe = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+export const providerService = {
+  // Calls the model, retrying and then walking its fallback chain while providers fail; every fallback is recorded
+  // as an event of the generation, which ends up showing the model that actually answered
+  run: async <T>(
+    model: string,
+    generation: LangfuseGenerationClient | undefined,
+    call: (model: string) => Promise<T>
+  ): Promise<{result: T; model: string}> => {
+    const chain = [model, ...(fallback_chains[model] ?? []).filter(candidate => candidate !== model)];
+    const failures: Array<{model: string; error: string}> = [];
+    let last_error: unknown;
+
+    for (const [index, candidate] of chain.entries()) {
+      const provider = findProvider(candidate);
+
+      if (isOpen(provider)) {
+        failures.push({model: candidate, error: `${provider} is skipped until its circuit breaker closes`});
+      } else {
+        for (let attempt = 1; attempt <= retry_policy.max_attempts; attempt++) {
+          try {
+            const result = await call(candidate);
+            recordSuccess(provider);
+
+            if (candidate !== model) {
+              generation?.update({model: candidate});
+            }
+
+            return {result, model: candidate};
+          } catch (error) {
+            if (!isProviderFailure(error)) {
+              throw error;
+            }
+
+            last_error = error;
+            recordFailure(provider);
+
+            if (!error.isRetryable || attempt === retry_policy.max_attempts || isOpen(provider)) {
+              break;
+            }
+
+            await new Promise(resolve => setTimeout(resolve, backoff(attempt, error)));
+          }
+        }
+
+        failures.push({model: candidate, error: describe(last_error)});
+      }
+
+      const next_model = chain[index + 1] ?? null;
+      console.warn(`[Provider] ${candidate} failed (${failures.at(-1)?.error})${next_model ? `, falling back to ${next_model}` : ''}`);
+      generation?.event({
+        name: 'llm_fallback',
+        level: 'WARNING',
+        statusMessage: failures.at(-1)?.error,
+        input: {model: candidate, provider},
+        output: {next_model}
+      });
+    }
+
+    throw new CompletionError(`${chain.join(', ')} all failed`, {cause: last_error, context: {model, failures}});
+  }
+};
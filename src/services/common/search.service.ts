@@ -3,7 +3,6 @@ import { documentService, type DocumentType } from '../agent/document.service';
 import { memoryService } from '../agent/memory.service';
 import { vectorService } from './vector.service';
 import { algoliaService } from './algolia.service';
-import { embedding } from './llm.service';
 import type { Memory } from '../../schema/memory';
 
 const SearchFiltersSchema = z.object({
@@ -50,11 +49,9 @@ export const searchService = {
         ...(filters?.content_type ? { content_type: filters.content_type } : {})
       };
       
-      const query_embedding = await embedding(queries.vector_query);
-
       const [vector_results, algolia_response] = await Promise.all([
-        vectorService.searchSimilar(
-          query_embedding, 
+        vectorService.searchText(
+          queries.vector_query,
           search_filters,
           normalized_limit
         ),
@@ -0,0 +1,128 @@
+import db from '../../database/db';
+import {usage} from '../../schema/usage';
+import {and, eq, gte, lte, sql, sum} from 'drizzle-orm';
+import {v4 as uuidv4} from 'uuid';
+import {providers} from '../../config/llm.config';
+import type {UsageContext, UsagePhase} from '../../types/llm';
+import type {StateManager} from '../agent/state.service';
+
+// Prompt tokens written to and read from the provider's prompt cache; they're part of prompt_tokens
+export interface CacheUsage {
+  write: number;
+  read: number;
+}
+
+interface RecordUsageParams extends Omit<UsageContext, 'onUsage'> {
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cache?: CacheUsage;
+}
+
+interface UsageReportParams {
+  user_uuid: string;
+  conversation_uuid?: string;
+  message_uuid?: string;
+  from?: string;
+  to?: string;
+}
+
+const totals = {
+  prompt_tokens: sql<number>`coalesce(${sum(usage.prompt_tokens)}, 0)`.mapWith(Number),
+  completion_tokens: sql<number>`coalesce(${sum(usage.completion_tokens)}, 0)`.mapWith(Number),
+  total_tokens: sql<number>`coalesce(${sum(usage.total_tokens)}, 0)`.mapWith(Number),
+  cost: sql<number>`coalesce(${sum(usage.cost)}, 0)`.mapWith(Number)
+};
+
+export const calculateCost = (model: string, prompt_tokens: number, completion_tokens: number, cache: CacheUsage = {write: 0, read: 0}): number => {
+  const pricing = Object.values(providers).find(models => models[model])?.[model]?.pricing;
+
+  if (!pricing) {
+    return 0;
+  }
+
+  const uncached_tokens = prompt_tokens - cache.write - cache.read;
+
+  return (
+    (uncached_tokens * pricing.input +
+      cache.write * (pricing.cache_write ?? pricing.input) +
+      cache.read * (pricing.cache_read ?? pricing.input) +
+      completion_tokens * pricing.output) /
+    1_000_000
+  );
+};
+
+// Bills a completion to the run's user and conversation and adds it to the run's spend; runs without a user aren't billed
+export const trackUsage = (stateManager: StateManager, phase: UsagePhase): UsageContext | undefined => {
+  const {config} = stateManager.getState();
+
+  if (!config.user_uuid) {
+    return undefined;
+  }
+
+  return {
+    user_uuid: config.user_uuid,
+    conversation_uuid: config.conversation_uuid,
+    message_uuid: config.message_uuid,
+    phase,
+    onUsage: ({tokens, cost}) => {
+      const {usage} = stateManager.getState().config;
+      stateManager.updateConfig({usage: {tokens: usage.tokens + tokens, cost: usage.cost + cost}});
+    }
+  };
+};
+
+export const usageService = {
+  record: async ({user_uuid, conversation_uuid, message_uuid, phase, model, prompt_tokens, completion_tokens, cache}: RecordUsageParams) => {
+    const [recorded] = await db
+      .insert(usage)
+      .values({
+        uuid: uuidv4(),
+        user_uuid,
+        conversation_uuid: conversation_uuid ?? null,
+        message_uuid: message_uuid ?? null,
+        phase,
+        model,
+        prompt_tokens,
+        completion_tokens,
+        total_tokens: prompt_tokens + completion_tokens,
+        cost: calculateCost(model, prompt_tokens, completion_tokens, cache)
+      })
+      .returning();
+
+    return recorded;
+  },
+
+  getUserMonthlyTotal: async (user_uuid: string) => {
+    const [total] = await db
+      .select(totals)
+      .from(usage)
+      .where(and(eq(usage.user_uuid, user_uuid), gte(usage.created_at, sql`datetime('now', 'start of month')`)));
+
+    return total;
+  },
+
+  getConversationTotal: async (conversation_uuid: string) => {
+    const [total] = await db.select(totals).from(usage).where(eq(usage.conversation_uuid, conversation_uuid));
+
+    return total;
+  },
+
+  getReport: async ({user_uuid, conversation_uuid, message_uuid, from, to}: UsageReportParams) => {
+    const conditions = and(
+      eq(usage.user_uuid, user_uuid),
+      conversation_uuid ? eq(usage.conversation_uuid, conversation_uuid) : undefined,
+      message_uuid ? eq(usage.message_uuid, message_uuid) : undefined,
+      from ? gte(usage.created_at, sql`datetime(${from})`) : undefined,
+      to ? lte(usage.created_at, sql`datetime(${to})`) : undefined
+    );
+
+    const [total, by_phase, by_model] = await Promise.all([
+      db.select(totals).from(usage).where(conditions),
+      db.select({phase: usage.phase, calls: sql<number>`count(*)`.mapWith(Number), ...totals}).from(usage).where(conditions).groupBy(usage.phase),
+      db.select({model: usage.model, calls: sql<number>`count(*)`.mapWith(Number), ...totals}).from(usage).where(conditions).groupBy(usage.model)
+    ]);
+
+    return {total: total[0], by_phase, by_model};
+  }
+};
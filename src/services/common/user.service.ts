@@ -2,6 +2,7 @@ import db from '../../database/db';
 import {users} from '../../schema/user';
 import {eq} from 'drizzle-orm';
 import type {User} from '../../schema/user';
+import {resolveTimeSettings, type TimeSettings} from '../../utils/time';
 
 // Export individual functions instead of a class for better modularity and testing
 export const findByToken = async (token: string): Promise<User | undefined> => {
@@ -32,6 +33,13 @@ export const findByUUID = async (uuid: string): Promise<User | undefined> => {
   return user;
 };
 
+// `environment.timezone` / `environment.locale` override the ones stored on the user
+export const getTimeSettings = (user: Pick<User, 'timezone' | 'locale' | 'environment'>): TimeSettings => {
+  const environment = typeof user.environment === 'string' ? JSON.parse(user.environment || '{}') : user.environment;
+
+  return resolveTimeSettings(environment as Record<string, unknown> | null, user);
+};
+
 export const updateSpotifyTokens = async (
   user_uuid: string, 
   access_token: string, 
@@ -1,5 +1,9 @@
 import { QdrantClient } from '@qdrant/js-client-rest';
 import { z } from 'zod';
+import { embedding } from './llm.service';
+import { default_embedding_model, embedding_models } from '../../config/llm.config';
+import type { EmbeddingIndex } from '../../schema/embeddingIndex';
+import type { Document } from '../../schema/document';
 
 // Updated validation schemas
 const SearchFiltersSchema = z.object({
@@ -29,14 +33,44 @@ interface VectorSearchResult {
   payload: PointPayload;
 }
 
+export type LiveIndex = Pick<EmbeddingIndex, 'model' | 'dimensions' | 'collection'>;
+
 // Initialize Qdrant client
 const qdrant = new QdrantClient({
   url: process.env.QDRANT_URL,
   apiKey: process.env.QDRANT_API_KEY
 });
 
-const COLLECTION_NAME = process.env.QDRANT_INDEX || 'alice';
-const VECTOR_SIZE = 3072;
+export const COLLECTION_NAME = process.env.QDRANT_INDEX || 'alice';
+
+// Searched and written to. embeddingIndexService replaces it on startup with the index stored in the database,
+// and again when a re-embedding finishes, in a single assignment so every search uses one model and its collection
+let active: LiveIndex = {
+  model: default_embedding_model,
+  dimensions: embedding_models[default_embedding_model]?.dimensions ?? 3072,
+  collection: COLLECTION_NAME
+};
+
+// Filled by a running re-embedding; documents are written to it next to the active one, so none indexed meanwhile is missed
+let building: LiveIndex | null = null;
+
+export const toPointPayload = (document: Document): PointPayload => ({
+  document_uuid: document.uuid,
+  source_uuid: document.source_uuid,
+  source: 'document',
+  text: document.text,
+  metadata: typeof document.metadata === 'string' ? JSON.parse(document.metadata) : document.metadata,
+  created_at: document.created_at || new Date().toISOString(),
+  updated_at: document.updated_at || new Date().toISOString()
+});
+
+const liveIndexes = () => (building ? [active, building] : [active]);
+
+const checkSize = (vector: number[], index: LiveIndex) => {
+  if (vector.length !== index.dimensions) {
+    throw new Error(`Vector for ${index.collection} must be of size ${index.dimensions}, got ${vector.length}`);
+  }
+};
 
 const formatSearchFilters = (filters: SearchFilters) => {
   if (!filters) return undefined;
@@ -64,15 +98,28 @@ const formatSearchFilters = (filters: SearchFilters) => {
 };
 
 export const vectorService = {
+  useIndexes(next_active: LiveIndex, next_building: LiveIndex | null = null): void {
+    active = next_active;
+    building = next_building;
+  },
+
+  activeIndex(): LiveIndex {
+    return active;
+  },
+
   async initializeCollection(): Promise<void> {
+    await vectorService.ensureCollection(active);
+  },
+
+  async ensureCollection({ collection, dimensions }: LiveIndex): Promise<void> {
     try {
       const collections = await qdrant.getCollections();
-      const exists = collections.collections.some(c => c.name === COLLECTION_NAME);
+      const exists = collections.collections.some(c => c.name === collection);
 
       if (!exists) {
-        await qdrant.createCollection(COLLECTION_NAME, {
+        await qdrant.createCollection(collection, {
           vectors: {
-            size: VECTOR_SIZE,
+            size: dimensions,
             distance: 'Cosine'
           },
           optimizers_config: {
@@ -82,13 +129,13 @@ export const vectorService = {
         });
 
         // Create payload indexes for faster filtering
-        await qdrant.createPayloadIndex(COLLECTION_NAME, {
+        await qdrant.createPayloadIndex(collection, {
           field_name: 'source_uuid',
           field_schema: 'keyword',
           wait: true
         });
 
-        await qdrant.createPayloadIndex(COLLECTION_NAME, {
+        await qdrant.createPayloadIndex(collection, {
           field_name: 'source',
           field_schema: 'keyword',
           wait: true
@@ -100,28 +147,52 @@ export const vectorService = {
     }
   },
 
+  async dropCollection(collection: string): Promise<void> {
+    try {
+      await qdrant.deleteCollection(collection);
+    } catch (error) {
+      console.error('Failed to drop Qdrant collection:', error);
+      throw error;
+    }
+  },
+
+  // Embeds the text with the model of every live index, since their vectors aren't interchangeable
+  async indexDocument(payload: PointPayload): Promise<void> {
+    for (const index of liveIndexes()) {
+      await vectorService.upsertPoint(await embedding(payload.text, index.model), payload, index);
+    }
+  },
+
   async upsertPoint(
     vector: number[],
-    payload: PointPayload
+    payload: PointPayload,
+    index: LiveIndex = active
   ): Promise<void> {
-    try {
-      if (vector.length !== VECTOR_SIZE) {
-        throw new Error(`Vector must be of size ${VECTOR_SIZE}, got ${vector.length}`);
-      }
+    await vectorService.upsertPoints([{ vector, payload }], index);
+  },
 
-      const validated_payload = PointPayloadSchema.parse(payload);
+  async upsertPoints(
+    points: { vector: number[]; payload: PointPayload }[],
+    index: LiveIndex = active
+  ): Promise<void> {
+    try {
+      points.forEach(({ vector }) => checkSize(vector, index));
 
-      await qdrant.upsert(COLLECTION_NAME, {
+      await qdrant.upsert(index.collection, {
         wait: true,
-        points: [{
-          id: validated_payload.document_uuid,
-          vector,
-          payload: {
-            ...validated_payload,
-            metadata: undefined,
-            ...validated_payload.metadata
-          }
-        }]
+        points: points.map(({ vector, payload }) => {
+          const validated_payload = PointPayloadSchema.parse(payload);
+
+          return {
+            id: validated_payload.document_uuid,
+            vector,
+            payload: {
+              ...validated_payload,
+              metadata: undefined,
+              ...validated_payload.metadata
+            }
+          };
+        })
       });
     } catch (error) {
       console.error('Failed to upsert point:', error);
@@ -131,26 +202,37 @@ export const vectorService = {
 
   async deletePoints(document_uuids: string[]): Promise<void> {
     try {
-      await qdrant.delete(COLLECTION_NAME, {
+      await Promise.all(liveIndexes().map(index => qdrant.delete(index.collection, {
         wait: true,
         points: document_uuids
-      });
+      })));
     } catch (error) {
       console.error('Failed to delete points:', error);
       throw error;
     }
   },
 
+  // The index is read once, so a switch-over in the middle of a search can't pair one model's vector with another's collection
+  async searchText(
+    query: string,
+    filters?: SearchFilters,
+    limit = 10
+  ): Promise<VectorSearchResult[]> {
+    const index = active;
+    return vectorService.searchSimilar(await embedding(query, index.model), filters, limit, index);
+  },
+
   async searchSimilar(
     vector: number[],
     filters?: SearchFilters,
-    limit = 10
+    limit = 10,
+    index: LiveIndex = active
   ): Promise<VectorSearchResult[]> {
     try {
       console.log('Vector service received filters:', filters);
       const filter = filters ? formatSearchFilters(filters) : undefined;
 
-      const results = await qdrant.search(COLLECTION_NAME, {
+      const results = await qdrant.search(index.collection, {
         vector,
         filter,
         limit,
@@ -183,7 +265,7 @@ export const vectorService = {
     limit = 100
   ): Promise<VectorSearchResult[]> {
     try {
-      const results = await qdrant.scroll(COLLECTION_NAME, {
+      const results = await qdrant.scroll(active.collection, {
         filter: {
           must: [
             { key: 'source_uuid', match: { value: source_uuid } }
@@ -209,11 +291,11 @@ export const vectorService = {
     payload_update: Partial<PointPayload>
   ): Promise<void> {
     try {
-      await qdrant.setPayload(COLLECTION_NAME, {
+      await Promise.all(liveIndexes().map(index => qdrant.setPayload(index.collection, {
         points: [document_uuid],
         payload: payload_update,
         wait: true
-      });
+      })));
     } catch (error) {
       console.error('Failed to update point payload:', error);
       throw error;
@@ -226,13 +308,11 @@ export const vectorService = {
     payload: PointPayload
   ): Promise<void> {
     try {
-      if (vector.length !== VECTOR_SIZE) {
-        throw new Error(`Vector must be of size ${VECTOR_SIZE}, got ${vector.length}`);
-      }
+      checkSize(vector, active);
 
       const validated_payload = PointPayloadSchema.parse(payload);
 
-      await qdrant.upsert(COLLECTION_NAME, {
+      await qdrant.upsert(active.collection, {
         wait: true,
         points: [{
           id: document_uuid,
@@ -170,6 +170,24 @@ class McpClientService {
     }
   }
 
+  public async readResource(client: McpClient, uri: string, serverId: string, span?: LangfuseSpanClient): Promise<string> {
+    const readResourceSpan = span?.span({ name: 'mcp_read_resource', input: { uri }, metadata: { server_id: serverId } });
+    try {
+      const result = await client.readResource({ uri });
+      // Binary (blob) contents can't be used as prompt context, so only text parts are kept
+      const text = result.contents
+        .map(content => ('text' in content && typeof content.text === 'string' ? content.text : ''))
+        .filter(Boolean)
+        .join('\n\n');
+      readResourceSpan?.end({ output: text });
+      return text;
+    } catch (error) {
+      console.error(`[McpClientService] Failed to read resource ${uri} on MCP server ${serverId}:`, error);
+      readResourceSpan?.end({ metadata: { error: String(error) } });
+      throw error;
+    }
+  }
+
   public async disconnect(serverId: string): Promise<void> {
     const client = this.clients.get(serverId);
     if (client) {
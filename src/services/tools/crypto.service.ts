@@ -1,6 +1,5 @@
 import {z} from 'zod';
 import {LangfuseSpanClient} from 'langfuse';
-import {stateManager} from '../agent/state.service';
 import {documentService} from '../agent/document.service';
 import type {DocumentType} from '../agent/document.service';
 
@@ -1,6 +1,7 @@
 import {z} from 'zod';
 import {LangfuseSpanClient} from 'langfuse';
-import {stateManager} from '../agent/state.service';
+import type {StateManager} from '../agent/state.service';
+import {trackUsage} from '../common/usage.service';
 import {documentService} from '../agent/document.service';
 import type {DocumentType} from '../agent/document.service';
 import {uploadFile, findFileByUuid} from '../common/upload.service';
@@ -13,7 +14,7 @@ import {
   getMimeTypeFromExtension
 } from '../../config/mime.config';
 import {completion, transcription} from '../common/llm.service';
-import {prompt as writePrompt} from '../../prompts/tools/file.write';
+import {promptService} from '../agent/prompt.service';
 import {v4 as uuidv4} from 'uuid';
 import db from '../../database/db';
 import { documents } from '../../schema/document';
@@ -312,7 +313,7 @@ const fileService = {
     }
   },
 
-  write: async (query: string, context_uuids: string[], conversation_uuid: string, span?: LangfuseSpanClient): Promise<DocumentType> => {
+  write: async (query: string, context_uuids: string[], conversation_uuid: string, span: LangfuseSpanClient | undefined, stateManager: StateManager): Promise<DocumentType> => {
     try {
       // Load context documents
       const context_docs = await Promise.all(
@@ -341,11 +342,12 @@ const fileService = {
       });
 
       const state = stateManager.getState();
+      const write_prompt = promptService.render('tools/file.write', {documents: restored_context}, state.config.conversation_uuid);
 
       const writing_messages: CoreMessage[] = [
         {
           role: 'system',
-          content: writePrompt({documents: restored_context})
+          content: write_prompt.content
         },
         {
           role: 'user',
@@ -357,7 +359,8 @@ const fileService = {
       const file_generation = span?.generation({
         name: 'file_content_generation',
         input: writing_messages,
-        model: state.config.model
+        model: state.config.model,
+        ...promptService.observe(write_prompt)
       });
 
       // Generate content using LLM
@@ -365,6 +368,8 @@ const fileService = {
         model: state.config.model,
         messages: writing_messages,
         temperature: 0.7,
+        usage: trackUsage(stateManager, 'act'),
+        generation: file_generation,
         user: { uuid: conversation_uuid, name: 'file_write_tool' }
       });
 
@@ -444,7 +449,7 @@ const fileService = {
     }
   },
 
-  execute: async (action: string, payload: unknown, span?: LangfuseSpanClient): Promise<DocumentType> => {
+  execute: async (action: string, payload: unknown, span: LangfuseSpanClient | undefined, stateManager: StateManager): Promise<DocumentType> => {
     try {
       const state = stateManager.getState();
       const conversation_uuid = state.config.conversation_uuid ?? 'unknown';
@@ -457,7 +462,7 @@ const fileService = {
       switch (action) {
         case 'write': {
           const parsed = WritePayloadSchema.parse(payload);
-          return fileService.write(parsed.query, parsed.context, conversation_uuid, span);
+          return fileService.write(parsed.query, parsed.context, conversation_uuid, span, stateManager);
         }
         case 'load': {
           const {path} = z.object({ path: z.string() }).parse(payload);
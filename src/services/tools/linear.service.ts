@@ -1,7 +1,7 @@
 import { z } from 'zod';
 import { LinearClient, Issue, Project, IssueConnection, WorkflowState } from '@linear/sdk';
 import { LangfuseSpanClient } from 'langfuse';
-import { stateManager } from '../agent/state.service';
+import type { StateManager } from '../agent/state.service';
 import { documentService } from '../agent/document.service';
 import type { DocumentType } from '../agent/document.service';
 import { IssueFilter } from '@linear/sdk/dist/_generated_documents';
@@ -566,7 +566,8 @@ const linearService = {
   execute: async (
     action: string,
     payload: Record<string, any>,
-    span?: LangfuseSpanClient
+    span: LangfuseSpanClient | undefined,
+    stateManager: StateManager
   ): Promise<DocumentType> => {
     const state = stateManager.getState();
     try {
@@ -719,7 +720,7 @@ ${successful.map(issue => `- "${issue.title}" (${issue.id})`).join('\n')}`;
     }
   },
 
-  getRecentTasksContext: async (span?: LangfuseSpanClient): Promise<DocumentType> => {
+  getRecentTasksContext: async (stateManager: StateManager, span?: LangfuseSpanClient): Promise<DocumentType> => {
     const today = new Date();
     const startDate = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString();
     const endDate = new Date(today.getTime() + 7 * 24 * 60 * 60 * 1000).toISOString();
@@ -730,7 +731,7 @@ ${successful.map(issue => `- "${issue.title}" (${issue.id})`).join('\n')}`;
       startDate,
       endDate,
       conversation_uuid: state.config.conversation_uuid ?? 'unknown'
-    }, span);
+    }, span, stateManager);
   }
 };
 
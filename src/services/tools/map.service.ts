@@ -1,7 +1,7 @@
 import {z} from 'zod';
 import {LangfuseSpanClient} from 'langfuse';
 import {Client, TravelMode, PlaceInputType} from '@googlemaps/google-maps-services-js';
-import {stateManager} from '../agent/state.service';
+import type {StateManager} from '../agent/state.service';
 import {documentService} from '../agent/document.service';
 import type {DocumentType} from '../agent/document.service';
 
@@ -63,7 +63,7 @@ const extractDirectionsInfo = (data: any) => {
 };
 
 const mapService = {
-  execute: async (action: string, payload: unknown, span?: LangfuseSpanClient): Promise<DocumentType> => {
+  execute: async (action: string, payload: unknown, span: LangfuseSpanClient | undefined, stateManager: StateManager): Promise<DocumentType> => {
     try {
       const state = stateManager.getState();
       const conversation_uuid = state.config.conversation_uuid ?? 'unknown';
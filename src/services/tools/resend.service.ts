@@ -5,7 +5,7 @@ import {marked} from 'marked';
 import {DocumentMetadata} from '../../types/document';
 import {documentService} from '../agent/document.service';
 import type {DocumentType} from '../agent/document.service';
-import { stateManager } from '../agent/state.service';
+import type {StateManager} from '../agent/state.service';
 import {documents} from '../../schema/document';
 import {eq} from 'drizzle-orm';
 import db from '../../database/db';
@@ -131,7 +131,7 @@ const resendService = {
     return attachments;
   },
 
-  execute: async (action: string, payload: any, span?: LangfuseSpanClient): Promise<DocumentType> => {
+  execute: async (action: string, payload: any, span: LangfuseSpanClient | undefined, stateManager: StateManager): Promise<DocumentType> => {
     if (action !== 'send_email') {
       throw new Error(`Unknown action: ${action}`);
     }
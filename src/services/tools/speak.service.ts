@@ -5,7 +5,7 @@ import {exec as execCallback} from 'child_process';
 import {writeFile, unlink} from 'fs/promises';
 import {tmpdir} from 'os';
 import {join} from 'path';
-import {stateManager} from '../agent/state.service';
+import type {StateManager} from '../agent/state.service';
 import {documentService} from '../agent/document.service';
 import type {DocumentType} from '../agent/document.service';
 import {createTextService} from '../common/text.service';
@@ -87,7 +87,7 @@ const speakWithElevenLabs = async (text: string, voice?: string, span?: Langfuse
 };
 
 const speakService = {
-  execute: async (action: string, payload: unknown, span?: LangfuseSpanClient): Promise<DocumentType> => {
+  execute: async (action: string, payload: unknown, span: LangfuseSpanClient | undefined, stateManager: StateManager): Promise<DocumentType> => {
     try {
       const state = stateManager.getState();
       const {text, voice, mode} = speakPayloadSchema.parse(payload);
@@ -1,9 +1,10 @@
 import {SpotifyApi, AccessToken} from '@spotify/web-api-ts-sdk';
 import {LangfuseSpanClient} from 'langfuse';
 import {z} from 'zod';
-import {stateManager} from '../agent/state.service';
+import type {StateManager} from '../agent/state.service';
+import {trackUsage} from '../common/usage.service';
 import {TokenResponse, SimplifiedSearchResults} from '../../types/tools/spotify';
-import {prompt as spotifyPlayPrompt} from '../../prompts/tools/spotify.play';
+import {promptService} from '../agent/prompt.service';
 import {completion} from '../common/llm.service';
 import {DocumentMetadata} from '../../types/document';
 import {documentService} from '../agent/document.service';
@@ -142,7 +143,7 @@ const spotifyService = {
     return SpotifyApi.withAccessToken(env.SPOTIFY_CLIENT_ID, access_token);
   },
 
-  search: async (query: string, types: Array<'album' | 'artist' | 'playlist' | 'track'>, limit: number = 5, span?: LangfuseSpanClient): Promise<SimplifiedSearchResults> => {
+  search: async (query: string, types: Array<'album' | 'artist' | 'playlist' | 'track'>, limit: number = 5, span: LangfuseSpanClient | undefined, stateManager: StateManager): Promise<SimplifiedSearchResults> => {
     try {
       const state = stateManager.getState();
       if (!state.config.user_uuid) {
@@ -192,7 +193,7 @@ const spotifyService = {
     }
   },
 
-  getActiveDevice: async (): Promise<string> => {
+  getActiveDevice: async (stateManager: StateManager): Promise<string> => {
     const state = stateManager.getState();
     if (!state.config.user_uuid) {
       throw new Error('User UUID is required for Spotify operations');
@@ -215,7 +216,7 @@ const spotifyService = {
     return device_id;
   },
 
-  playTrack: async (uri: string, span?: LangfuseSpanClient): Promise<void> => {
+  playTrack: async (uri: string, span: LangfuseSpanClient | undefined, stateManager: StateManager): Promise<void> => {
     try {
       const state = stateManager.getState();
       if (!state.config.user_uuid) {
@@ -224,7 +225,7 @@ const spotifyService = {
 
       const spotify_client = await spotifyService.createClient(state.config.user_uuid);
       const devices = await spotify_client.player.getAvailableDevices();
-      const device_id = await spotifyService.getActiveDevice();
+      const device_id = await spotifyService.getActiveDevice(stateManager);
 
       await spotify_client.player.startResumePlayback(device_id, undefined, [uri]);
 
@@ -257,33 +258,34 @@ const spotifyService = {
     }
   },
 
-  playPlaylist: async (uri: string): Promise<void> => {
+  playPlaylist: async (uri: string, stateManager: StateManager): Promise<void> => {
     const state = stateManager.getState();
     if (!state.config.user_uuid) {
       throw new Error('User UUID is required for Spotify operations');
     }
 
     const spotify_client = await spotifyService.createClient(state.config.user_uuid);
-    const device_id = await spotifyService.getActiveDevice();
+    const device_id = await spotifyService.getActiveDevice(stateManager);
 
     await spotify_client.player.startResumePlayback(device_id, uri);
   },
 
-  playAlbum: async (uri: string): Promise<void> => {
+  playAlbum: async (uri: string, stateManager: StateManager): Promise<void> => {
     const state = stateManager.getState();
     if (!state.config.user_uuid) {
       throw new Error('User UUID is required for Spotify operations');
     }
 
     const spotify_client = await spotifyService.createClient(state.config.user_uuid);
-    const device_id = await spotifyService.getActiveDevice();
+    const device_id = await spotifyService.getActiveDevice(stateManager);
 
     await spotify_client.player.startResumePlayback(device_id, uri);
   },
 
-  select: async (results: SimplifiedSearchResults, query: string, span?: LangfuseSpanClient): Promise<string> => {
+  select: async (results: SimplifiedSearchResults, query: string, span: LangfuseSpanClient | undefined, stateManager: StateManager): Promise<string> => {
     try {
       const state = stateManager.getState();
+      const play_prompt = promptService.render('tools/spotify.play', {results: JSON.stringify(results)}, state.config.conversation_uuid);
 
       const selection_generation = span?.generation({
         name: 'spotify_track_selection',
@@ -295,16 +297,19 @@ const spotifyService = {
             albums: results.albums.map(a => ({name: a.name, artists: a.artists}))
           }
         },
-        model: state.config.model
+        model: state.config.model,
+        ...promptService.observe(play_prompt)
       });
 
       const decision = await completion.object<{result: string}>({
         model: state.config.model ?? 'gpt-4o',
         messages: [
-          {role: 'system', content: spotifyPlayPrompt({results: JSON.stringify(results)})},
+          {role: 'system', content: play_prompt.content},
           {role: 'user', content: query}
         ],
         temperature: 0,
+        usage: trackUsage(stateManager, 'act'),
+        generation: selection_generation,
         user: {
           uuid: state.config.user_uuid ?? '',
           name: state.profile.user_name
@@ -350,9 +355,9 @@ const spotifyService = {
     }
   },
 
-  playMusic: async (query: string, conversation_uuid: string, span?: LangfuseSpanClient): Promise<DocumentType> => {
+  playMusic: async (query: string, conversation_uuid: string, span: LangfuseSpanClient | undefined, stateManager: StateManager): Promise<DocumentType> => {
     try {
-      const search_results = await spotifyService.search(query, ['track', 'playlist', 'album'], 15, span);
+      const search_results = await spotifyService.search(query, ['track', 'playlist', 'album'], 15, span, stateManager);
 
       if (!search_results.tracks.length && !search_results.playlists.length && !search_results.albums.length) {
         span?.event({
@@ -370,7 +375,7 @@ const spotifyService = {
         });
       }
 
-      const spotify_uri = await spotifyService.select(search_results, query, span);
+      const spotify_uri = await spotifyService.select(search_results, query, span, stateManager);
 
       if (spotify_uri === 'no match') {
         span?.event({
@@ -389,7 +394,7 @@ const spotifyService = {
       }
 
       const [_, content_type, content_id] = spotify_uri.split(':');
-      const response = await spotifyService.handleContentPlay(content_type, spotify_uri, search_results, span);
+      const response = await spotifyService.handleContentPlay(content_type, spotify_uri, search_results, span, stateManager);
 
       span?.event({
         name: 'spotify_play_success',
@@ -434,10 +439,10 @@ const spotifyService = {
     }
   },
 
-  handleContentPlay: async (content_type: string, uri: string, search_results: SimplifiedSearchResults, span?: LangfuseSpanClient): Promise<ToolResponse> => {
+  handleContentPlay: async (content_type: string, uri: string, search_results: SimplifiedSearchResults, span: LangfuseSpanClient | undefined, stateManager: StateManager): Promise<ToolResponse> => {
     switch (content_type) {
       case 'track': {
-        await spotifyService.playTrack(uri, span);
+        await spotifyService.playTrack(uri, span, stateManager);
         const selected_track = search_results.tracks.find(track => track.uri === uri);
         return {
           text: `Now playing: "${selected_track?.name}" by ${selected_track?.artists}`,
@@ -449,7 +454,7 @@ const spotifyService = {
       }
 
       case 'playlist': {
-        await spotifyService.playPlaylist(uri);
+        await spotifyService.playPlaylist(uri, stateManager);
         const selected_playlist = search_results.playlists.find(playlist => playlist.uri === uri);
         return {
           text: `Now playing playlist: "${selected_playlist?.name}" by ${selected_playlist?.owner}`,
@@ -461,7 +466,7 @@ const spotifyService = {
       }
 
       case 'album': {
-        await spotifyService.playAlbum(uri);
+        await spotifyService.playAlbum(uri, stateManager);
         const selected_album = search_results.albums.find(album => album.uri === uri);
         return {
           text: `Now playing album: "${selected_album?.name}" by ${selected_album?.artists}`,
@@ -480,9 +485,9 @@ const spotifyService = {
     }
   },
 
-  searchMusic: async (query: string, conversation_uuid: string, span?: LangfuseSpanClient): Promise<DocumentType> => {
+  searchMusic: async (query: string, conversation_uuid: string, span: LangfuseSpanClient | undefined, stateManager: StateManager): Promise<DocumentType> => {
     try {
-      const search_results = await spotifyService.search(query, ['track', 'playlist', 'album'], 15, span);
+      const search_results = await spotifyService.search(query, ['track', 'playlist', 'album'], 15, span, stateManager);
       
       let content = 'Spotify Search Results (if you need to play music, pick one of the results in the next action you need to take):\n\n';
 
@@ -540,7 +545,7 @@ const spotifyService = {
     }
   },
 
-  execute: async (action: string, payload: any, span?: LangfuseSpanClient) => {
+  execute: async (action: string, payload: any, span: LangfuseSpanClient | undefined, stateManager: StateManager) => {
     const state = stateManager.getState();
 
     span?.event({
@@ -550,10 +555,10 @@ const spotifyService = {
     });
 
     if (action === 'play_music') {
-      return spotifyService.playMusic(payload.query, state.config.conversation_uuid ?? 'unknown', span);
+      return spotifyService.playMusic(payload.query, state.config.conversation_uuid ?? 'unknown', span, stateManager);
     }
     if (action === 'search_music') {
-      return spotifyService.searchMusic(payload.query, state.config.conversation_uuid ?? 'unknown', span);
+      return spotifyService.searchMusic(payload.query, state.config.conversation_uuid ?? 'unknown', span, stateManager);
     }
 
     throw new Error(`Unknown action: ${action}`);
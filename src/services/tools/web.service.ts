@@ -6,11 +6,10 @@ import {documentService} from '../agent/document.service';
 import {createTokenizer} from '../common/text.service';
 import type {DocumentType} from '../agent/document.service';
 import {whitelistedDomains} from '../../config/websearch.config';
-import {prompt as useSearchPrompt} from '../../prompts/tools/search.use';
-import {prompt as askSearchPrompt} from '../../prompts/tools/search.ask';
-import {prompt as pickResourcesPrompt} from '../../prompts/tools/search.pick';
+import {promptService} from '../agent/prompt.service';
 import {completion} from '../common/llm.service';
-import {stateManager} from '../agent/state.service';
+import type {StateManager} from '../agent/state.service';
+import {trackUsage} from '../common/usage.service';
 
 const envSchema = z.object({
   FIRECRAWL_API_KEY: z.string()
@@ -117,7 +116,7 @@ const webService = {
     }
   },
 
-  async execute(action: string, payload: {url?: string, query?: string}, span?: LangfuseSpanClient) {
+  async execute(action: string, payload: {url?: string, query?: string}, span: LangfuseSpanClient | undefined, stateManager: StateManager) {
     if (action === 'search') {
       if (!payload.query) {
         throw new Error('Query is required for search action');
@@ -133,9 +132,10 @@ const webService = {
 
       // 1. Check if search is needed
       const searchNecessity = await completion.object<{shouldSearch: boolean, _thoughts: string}>({
-        messages: [{role: 'system', content: useSearchPrompt()}, {role: 'user', content: payload.query}],
+        messages: [{role: 'system', content: promptService.render('tools/search.use', {}, conversation_uuid).content}, {role: 'user', content: payload.query}],
         model: state.config.model ?? 'gpt-4o',
         temperature: 0,
+        usage: trackUsage(stateManager, 'act'),
         user: {
           uuid: state.config.user_uuid ?? '',
           name: state.profile.user_name
@@ -153,9 +153,10 @@ const webService = {
 
       // 2. Generate queries
       const queryGeneration = await completion.object<{queries: Array<{q: string, url: string}>, _thoughts: string}>({
-        messages: [{role: 'system', content: askSearchPrompt(whitelistedDomains)}, {role: 'user', content: payload.query}],
+        messages: [{role: 'system', content: promptService.render('tools/search.ask', {allowed_domains: whitelistedDomains}, conversation_uuid).content}, {role: 'user', content: payload.query}],
         model: state.config.model ?? 'gpt-4o',
         temperature: 0,
+        usage: trackUsage(stateManager, 'act'),
         user: {
           uuid: state.config.user_uuid ?? '',
           name: state.profile.user_name
@@ -224,13 +225,14 @@ const webService = {
       const resourceSelection = await completion.object<{urls: string[]}>({
         messages: [{
           role: 'system',
-          content: pickResourcesPrompt({resources: searchResults})
+          content: promptService.render('tools/search.pick', {resources: searchResults}, conversation_uuid).content
         }, {
           role: 'user',
           content: payload.query
         }],
         model: state.config.model ?? 'gpt-4o',
         temperature: 0,
+        usage: trackUsage(stateManager, 'act'),
         user: {
           uuid: state.config.user_uuid ?? '',
           name: state.profile.user_name
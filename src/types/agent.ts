@@ -17,7 +17,7 @@ interface MemoryResponse {
 
 interface ContextResponse {
   _thinking: string;
-  result: string;
+  result: string | null;
 }
 
 interface TaskItem {
@@ -25,6 +25,7 @@ interface TaskItem {
   name: string;
   description: string;
   status: 'completed' | 'pending';
+  depends_on: string[]; // names of the tasks that must be completed first
 }
 
 interface TaskResponse {
@@ -37,13 +38,23 @@ export type Action = {
   task_uuid: string;
   tool_uuid: string;
   name: string;
+  tool_action?: string | null;
   payload: unknown;
   sequence: number | null;
-  status: string | null; // 'pending' | 'completed' | 'failed'
+  status: string | null; // 'pending' | 'awaiting_approval' | 'completed' | 'rejected' | 'failed'
   result?: string | null;
   documents?: Document[];
 };
 
+// Live updates about the reasoning loop, streamed to clients that ask for them
+export type ProgressEvent =
+  | {type: 'phase'; phase: string; step: number}
+  | {type: 'tasks'; tasks: Array<{uuid: string; name: string; status: string}>}
+  | {type: 'action'; action_uuid: string; name: string; tool: string; task_uuid: string}
+  | {type: 'payload'; action_uuid: string | null; tool: string | null; tool_action: string; payload: Record<string, unknown>}
+  | {type: 'result'; action_uuid: string | null; tool: string; status: 'completed' | 'failed'; summary: string}
+  | {type: 'error'; message: string; recoverable: boolean};
+
 export type Task = {
   uuid: string;
   conversation_uuid: string;
@@ -54,6 +65,7 @@ export type Task = {
   scheduled_for?: string | null;
   completed_at?: string | null;
   result?: string | null;
+  depends_on?: string[]; // uuids of the tasks that must be completed first
   actions: Action[];
 };
 
@@ -62,6 +74,10 @@ export interface Tool {
   name: string;
   description: string | null;
   instruction: string | null;
+  approval_actions?: string[];
+  max_attempts?: number;
+  retry_backoff_ms?: number;
+  input_schema?: Record<string, unknown>; // JSON Schema of the arguments of MCP tools
   payload?: unknown;
 }
 
@@ -1,7 +1,9 @@
 import type {ChatCompletion} from 'openai/resources/chat/completions';
+import type {StateManager} from '../services/agent/state.service';
 
 export interface SetAssistantResponseParams {
   conversation_id: string;
   response: string | ChatCompletion;
   source?: string;
+  stateManager: StateManager;
 }
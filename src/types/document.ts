@@ -30,6 +30,7 @@ export interface DocumentMetadata {
     screenshots?: string[];
     should_index?: boolean;
     updated_at?: string;
+    summarized_messages?: number; // conversation summaries: how many of the oldest messages they replace
     category?: string;
     subcategory?: string;
 } 
\ No newline at end of file
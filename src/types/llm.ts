@@ -1,5 +1,17 @@
 import {type ChatRequest} from '../dto/chat.dto';
 import type {CoreMessage} from 'ai';
+import type {LangfuseGenerationClient} from 'langfuse';
+
+export type UsagePhase = 'fast_track' | 'observe' | 'draft' | 'plan' | 'next' | 'use' | 'call' | 'act' | 'compact' | 'answer' | 'passthrough';
+
+// Who a completion is billed to; llm.service records the usage row and reports it back through onUsage
+export interface UsageContext {
+  user_uuid: string;
+  conversation_uuid?: string | null;
+  message_uuid?: string | null;
+  phase: UsagePhase;
+  onUsage?: (usage: {tokens: number; cost: number}) => void;
+}
 
 export interface CompletionConfig {
   messages: CoreMessage[];
@@ -14,6 +26,9 @@ export interface CompletionConfig {
   };
   conversation_id?: string;
   stream?: boolean;
+  usage?: UsageContext;
+  generation?: LangfuseGenerationClient; // receives an event for every fallback to another model
+  cache?: boolean; // false skips the completion cache for this call
 }
 
 export interface StreamResponse {
@@ -1,6 +1,7 @@
 import {CoreMessage, Message} from 'ai';
 import {Memory, Task, Tool} from './agent';
 import { DocumentType } from '../services/agent/document.service';
+import type { ToolMode } from '../config/llm.config';
 
 export interface State {
   config: {
@@ -13,11 +14,18 @@ export interface State {
     current_tool: {uuid: string; name: string} | null;
     user_uuid: string | null;
     conversation_uuid: string | null;
+    message_uuid: string | null;
+    usage: {tokens: number; cost: number};
+    budget: {tokens: number | null; cost: number | null};
+    tool_mode: ToolMode;
+    loop_warning: string | null; // corrective note for the next plan() after the loop went in circles
     model: string;
     alt_model: string | null;
     temperature: number;
     max_tokens: number;
-    time: string;
+    timezone: string; // IANA name, from the user's environment or profile
+    locale: string;
+    time: string; // "YYYY-MM-DD HH:mm" in the timezone
   };
   thoughts: {
     environment: string;
@@ -37,6 +45,9 @@ export interface State {
     context: string | null;
     ai_name: string;
     user_name: string;
+    persona_uuid: string | null;
+    instructions: string | null; // the persona's additions to the planning and answer prompts
+    memory_categories: string[] | null; // categories the persona may recall and store memories in, null for all
   };
   interaction: {
     tasks: Task[];
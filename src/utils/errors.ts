@@ -34,6 +34,12 @@ export class NotFoundError extends BaseError {
   }
 }
 
+export class ConflictError extends BaseError {
+  constructor(message: string, metadata?: ErrorMetadata) {
+    super(`Conflict Error: ${message}`, metadata);
+  }
+}
+
 export class UniqueConstraintError extends DatabaseError {
   constructor(field: string, metadata?: ErrorMetadata) {
     super(`Unique constraint violation on ${field}`, metadata);
@@ -46,6 +52,30 @@ export class ForeignKeyError extends DatabaseError {
   }
 }
 
+export class ToolExecutionError extends BaseError {
+  constructor(tool: string, action: string, metadata?: ErrorMetadata) {
+    super(`Tool ${tool} failed to execute ${action}`, metadata);
+  }
+}
+
+export class CompletionError extends BaseError {
+  constructor(message: string, metadata?: ErrorMetadata) {
+    super(`Completion Error: ${message}`, metadata);
+  }
+}
+
+export class StructuredOutputError extends BaseError {
+  constructor(message: string, metadata?: ErrorMetadata) {
+    super(`Structured Output Error: ${message}`, metadata);
+  }
+}
+
+export class ReplayError extends BaseError {
+  constructor(message: string, metadata?: ErrorMetadata) {
+    super(`Replay Error: ${message}`, metadata);
+  }
+}
+
 export const isQueryError = (error: unknown): boolean => {
   return error instanceof Error && 
     ['DatabaseError', 'UniqueConstraintError', 'ForeignKeyError'].includes(error.name);
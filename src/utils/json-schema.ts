@@ -0,0 +1,100 @@
+export type JsonSchema = Record<string, unknown>;
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const matchesType = (type: unknown, value: unknown) => {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+};
+
+// Checks the keywords tool schemas use in practice (types, properties, items, enums, bounds, combinators);
+// $ref and formats aren't resolved. Returns one message per problem, empty when the value is valid.
+export const validateJsonSchema = (schema: JsonSchema, value: unknown, path = '$'): string[] => {
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => isEqual(option, value))) {
+    return [`${path} should be one of ${JSON.stringify(schema.enum)}`];
+  }
+
+  if ('const' in schema && !isEqual(schema.const, value)) {
+    return [`${path} should be ${JSON.stringify(schema.const)}`];
+  }
+
+  const alternatives = (schema.anyOf ?? schema.oneOf) as JsonSchema[] | undefined;
+  if (alternatives && !alternatives.some(alternative => validateJsonSchema(alternative, value, path).length === 0)) {
+    return [`${path} doesn't match any of the allowed schemas`];
+  }
+
+  const types = [schema.type].flat().filter(Boolean);
+  if (types.length > 0 && !types.some(type => matchesType(type, value))) {
+    return [`${path} should be ${types.join(' or ')}`];
+  }
+
+  const errors = ((schema.allOf as JsonSchema[] | undefined) ?? []).flatMap(part => validateJsonSchema(part, value, path));
+
+  if (matchesType('object', value)) {
+    const object = value as Record<string, unknown>;
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+
+    for (const key of (schema.required as string[] | undefined) ?? []) {
+      if (!(key in object)) {
+        errors.push(`${path}.${key} is required`);
+      }
+    }
+
+    for (const [key, property] of Object.entries(object)) {
+      if (properties[key]) {
+        errors.push(...validateJsonSchema(properties[key], property, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(schema.additionalProperties as JsonSchema, property, `${path}.${key}`));
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${path} should have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${path} should have at most ${schema.maxItems} items`);
+    }
+    if (schema.items && typeof schema.items === 'object') {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(schema.items as JsonSchema, item, `${path}[${index}]`)));
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push(`${path} should have at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      errors.push(`${path} should have at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path} should match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push(`${path} should be at least ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push(`${path} should be at most ${schema.maximum}`);
+    }
+  }
+
+  return errors;
+};
@@ -3,15 +3,18 @@ import {generateChunk, generateResponseBody} from '../services/common/llm.servic
 import {observer} from '../services/agent/observer.service';
 import {setAssistantResponse} from '../services/agent/agi.service';
 import {CoreMessage} from 'ai';
-import {stateManager} from '../services/agent/state.service';
+import type {StateManager} from '../services/agent/state.service';
 import {taskService} from '../services/agent/task.service';
 import {actionService} from '../services/agent/action.service';
+import {z} from 'zod';
+import {ConflictError, NotFoundError, ValidationError} from './errors';
 
 interface StreamMetadata {
   traceId: string;
   generationId: string;
   messages: CoreMessage[];
   conversation_id: string;
+  stateManager: StateManager;
 }
 
 export const streamResponse = async (c: Context, result: ReadableStream<string>, metadata: StreamMetadata, model: string = 'gpt-4o') => {
@@ -34,10 +37,11 @@ export const streamResponse = async (c: Context, result: ReadableStream<string>,
       controller.enqueue('data: [DONE]\n\n');
 
       const responseBody = generateResponseBody(fullResponse, model);
-      const state = stateManager.getState();
+      const state = metadata.stateManager.getState();
       const final_task = state.interaction.tasks.find(task => task.type === 'final');
 
-      if (final_task) {
+      // A run paused for approval isn't finished yet, so its final task stays pending
+      if (final_task && state.config.current_phase !== 'awaiting_approval') {
         await Promise.all([
           taskService.updateTaskStatus(final_task.uuid, 'completed'),
           taskService.updateTaskResult(final_task.uuid, fullResponse),
@@ -47,16 +51,71 @@ export const streamResponse = async (c: Context, result: ReadableStream<string>,
 
       await setAssistantResponse({
         conversation_id: metadata.conversation_id,
-        response: fullResponse
+        response: fullResponse,
+        stateManager: metadata.stateManager
       });
 
       if (metadata.generationId) {
         observer.endGeneration(metadata.generationId, responseBody);
       }
 
-      await observer.finalizeTrace(metadata.traceId, metadata.messages, [responseBody]);
+      await observer.finalizeTrace(metadata.traceId, metadata.messages, [responseBody], metadata.stateManager.getState());
     }
   });
 
   return c.newResponse(result.pipeThrough(transformStream));
 };
+
+// Sends the reasoning loop's progress as named `progress` SSE events while run() works, then forwards the answer it returns.
+// OpenAI-compatible clients that only read unnamed `data:` events still get a regular completion stream.
+export const streamWithProgress = (c: Context, stateManager: StateManager, run: () => Promise<Response>) => {
+  c.header('Content-Type', 'text/event-stream');
+  c.header('Cache-Control', 'no-cache');
+  c.header('Connection', 'keep-alive');
+
+  const {readable, writable} = new TransformStream<string | Uint8Array, string | Uint8Array>();
+  const writer = writable.getWriter();
+
+  // A client that disconnected mid-run shouldn't break the run itself
+  const send = (chunk: string | Uint8Array) => writer.write(chunk).catch(() => {});
+  const unsubscribe = stateManager.onProgress(event => send(`event: progress\ndata: ${JSON.stringify(event)}\n\n`));
+
+  (async () => {
+    try {
+      const response = await run();
+      unsubscribe();
+
+      const reader = response.body?.getReader();
+      while (reader) {
+        const {done, value} = await reader.read();
+        if (done) break;
+        await send(value);
+      }
+    } catch (error) {
+      unsubscribe();
+      await send(`event: progress\ndata: ${JSON.stringify({type: 'error', message: error instanceof Error ? error.message : 'Unknown error', recoverable: false, timestamp: new Date().toISOString()})}\n\n`);
+      await send('data: [DONE]\n\n');
+    } finally {
+      await writer.close().catch(() => {});
+    }
+  })();
+
+  return c.newResponse(readable);
+};
+
+// Maps the errors of a route handler onto its JSON error response, with the fallback message for anything unexpected
+export const toErrorResponse = (error: unknown, fallback: string) => {
+  if (error instanceof z.ZodError) {
+    return {body: {error: 'Invalid request data', details: error.errors}, status: 400 as const};
+  }
+  if (error instanceof ValidationError) {
+    return {body: {error: error.message}, status: 400 as const};
+  }
+  if (error instanceof NotFoundError) {
+    return {body: {error: error.message}, status: 404 as const};
+  }
+  if (error instanceof ConflictError) {
+    return {body: {error: error.message}, status: 409 as const};
+  }
+  return {body: {error: fallback}, status: 500 as const};
+};
@@ -0,0 +1,95 @@
+import {default_locale, default_timezone} from '../config/locale.config';
+import {ValidationError} from './errors';
+
+export interface TimeSettings {
+  timezone: string;
+  locale: string;
+}
+
+export const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', {timeZone: timezone});
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const isValidLocale = (locale: string) => {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+};
+
+// The first valid value wins, so `environment` can override what's stored on the user
+export const resolveTimeSettings = (...sources: Array<{timezone?: unknown; locale?: unknown} | null | undefined>): TimeSettings => {
+  const pick = (key: 'timezone' | 'locale', isValid: (value: string) => boolean) =>
+    sources.map(source => source?.[key]).find((value): value is string => typeof value === 'string' && isValid(value));
+
+  return {
+    timezone: pick('timezone', isValidTimezone) ?? default_timezone,
+    locale: pick('locale', isValidLocale) ?? default_locale
+  };
+};
+
+// Wall-clock date and time of an instant in the timezone, as numbers
+const zonedParts = (date: Date, timezone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+
+  const value = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  return {year: value('year'), month: value('month'), day: value('day'), hour: value('hour'), minute: value('minute'), second: value('second')};
+};
+
+// Milliseconds the timezone is ahead of UTC at the instant
+const timezoneOffset = (date: Date, timezone: string) => {
+  const {year, month, day, hour, minute, second} = zonedParts(date, timezone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// "YYYY-MM-DD HH:mm" in the timezone, the format the prompts show and expect back in payloads
+export const formatLocalTime = (date: Date, timezone: string) => {
+  const {year, month, day, hour, minute} = zonedParts(date, timezone);
+  return `${year}-${pad(month)}-${pad(day)} ${pad(hour)}:${pad(minute)}`;
+};
+
+// "UTC+02:00" style offset of the timezone at the instant
+export const formatOffset = (date: Date, timezone: string) => {
+  const minutes = Math.round(timezoneOffset(date, timezone) / 60000);
+  return `UTC${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}:${pad(Math.abs(minutes) % 60)}`;
+};
+
+// Dates written without an offset ("2024-11-16 16:28", "2024-11-16") are wall-clock time in the timezone;
+// ones with "Z" or an offset are taken as they are
+export const parseLocalTime = (value: string, timezone: string): Date => {
+  const normalized = /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? `${value.trim()}T00:00` : value.trim().replace(' ', 'T');
+
+  if (/T.*(Z|[+-]\d{2}:?\d{2})$/i.test(normalized)) {
+    const date = new Date(normalized);
+    if (isNaN(date.getTime())) {
+      throw new ValidationError(`Invalid date: ${value}`);
+    }
+    return date;
+  }
+
+  const as_utc = new Date(`${normalized}Z`);
+  if (isNaN(as_utc.getTime())) {
+    throw new ValidationError(`Invalid date: ${value}`);
+  }
+
+  // The offset is looked up again at the resulting instant, since it may differ around daylight saving changes
+  const guess = new Date(as_utc.getTime() - timezoneOffset(as_utc, timezone));
+  return new Date(as_utc.getTime() - timezoneOffset(guess, timezone));
+};